@@ -0,0 +1,165 @@
+import { listProfiles } from "./identity.js";
+import { readLedger } from "./ledger.js";
+import { sha256hex, type TaskData } from "./processors.js";
+
+// ─── Answer Checks ───────────────────────────────────────
+//
+// Written answers for review-mode produce phases are checked before they
+// are hashed. Errors (length, unparseable content) block the answer;
+// warnings (restating the question, near-duplicates of our own earlier
+// answers) are returned with it. The answer is normalized first, so the
+// same text always hashes the same whatever the line endings or padding.
+
+export const ANSWER_MIN_CHARS = 10;
+export const ANSWER_MAX_CHARS = 8000;
+const MIN_WORDS = 3;
+/** Share of non-space characters that must be letters for text to read as prose. */
+const MIN_LETTER_RATIO = 0.4;
+const NEAR_DUPLICATE_SIMILARITY = 0.8;
+/** Share of the answer's shingles taken from the question that reads as a restatement. */
+const QUESTION_OVERLAP = 0.8;
+
+export type AnswerIssueCode =
+  | "too_short"
+  | "too_long"
+  | "unparseable"
+  | "repeats_question"
+  | "near_duplicate";
+
+export interface AnswerIssue {
+  code: AnswerIssueCode;
+  message: string;
+}
+
+export interface AnswerCheck {
+  /** The normalized answer; this is what gets hashed and submitted. */
+  output_value: string;
+  output_hash: string;
+  errors: AnswerIssue[];
+  warnings: AnswerIssue[];
+}
+
+/** NFC, LF line endings, no trailing spaces, at most one blank line in a row, trimmed. */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize("NFC")
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/** Word trigrams, or the words themselves for very short texts. */
+function shingles(text: string): Set<string> {
+  const w = words(text);
+  if (w.length < 3) return new Set(w);
+  const out = new Set<string>();
+  for (let i = 0; i + 3 <= w.length; i++) out.add(w.slice(i, i + 3).join(" "));
+  return out;
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const s of a) if (b.has(s)) shared++;
+  return shared;
+}
+
+/** Jaccard similarity of two texts' word trigrams, 0-1. */
+export function similarity(a: string, b: string): number {
+  const sa = shingles(a);
+  const sb = shingles(b);
+  const union = sa.size + sb.size - overlap(sa, sb);
+  return union === 0 ? 0 : overlap(sa, sb) / union;
+}
+
+function unparseableReason(text: string): string | null {
+  if (/[\uFFFD\u0000-\u0008\u000B\u000C\u000E-\u001F]/.test(text)) {
+    return "contains control or replacement characters (binary or mis-decoded text)";
+  }
+  if (/^\s*\{[\s\S]*"ratings"\s*:/.test(text)) {
+    return "looks like review ratings; this is a produce-phase task that needs a written answer";
+  }
+  if (words(text).length < MIN_WORDS) return `has fewer than ${MIN_WORDS} words`;
+  const visible = text.replace(/\s/g, "");
+  const letters = visible.match(/\p{L}/gu)?.length ?? 0;
+  if (letters / visible.length < MIN_LETTER_RATIO) {
+    return "is mostly symbols or digits, not prose (an encoded blob or raw data?)";
+  }
+  return null;
+}
+
+/**
+ * Subjective answers this machine has produced, keyed by task_id. Every
+ * profile's ledger counts, since a sibling profile's answer is ours too.
+ */
+export function pastAnswers(): Map<string, string> {
+  const answers = new Map<string, string>();
+  for (const profile of listProfiles()) {
+    const produce = new Set<string>();
+    for (const entry of readLedger(profile)) {
+      if (entry.kind === "task" && entry.task.consensus_mode === "review") {
+        if (entry.task.phase === "produce") produce.add(entry.task.task_id);
+      } else if (entry.kind === "result" && produce.has(entry.task_id) && entry.output_value) {
+        answers.set(entry.task_id, entry.output_value);
+      }
+    }
+  }
+  return answers;
+}
+
+export function checkAnswer(
+  task: TaskData,
+  answer: string,
+  previous: Map<string, string> = pastAnswers(),
+): AnswerCheck {
+  const output_value = normalizeAnswer(answer);
+  const errors: AnswerIssue[] = [];
+  const warnings: AnswerIssue[] = [];
+
+  if (output_value.length < ANSWER_MIN_CHARS) {
+    errors.push({
+      code: "too_short",
+      message: `Answer is ${output_value.length} characters; at least ${ANSWER_MIN_CHARS} are required`,
+    });
+  } else if (output_value.length > ANSWER_MAX_CHARS) {
+    errors.push({
+      code: "too_long",
+      message: `Answer is ${output_value.length} characters; at most ${ANSWER_MAX_CHARS} are allowed`,
+    });
+  }
+  const unparseable = output_value.length > 0 ? unparseableReason(output_value) : null;
+  if (unparseable) errors.push({ code: "unparseable", message: `Answer ${unparseable}` });
+
+  if (task.description) {
+    const question = shingles(task.description);
+    const own = shingles(output_value);
+    const share = own.size > 0 ? overlap(question, own) / own.size : 0;
+    if (share >= QUESTION_OVERLAP) {
+      warnings.push({
+        code: "repeats_question",
+        message: `Answer repeats the question (${Math.round(share * 100)}% of the answer is its wording); reviewers rate restatements low`,
+      });
+    }
+  }
+
+  let closest: { taskId: string; score: number } | null = null;
+  for (const [taskId, text] of previous) {
+    if (taskId === task.task_id) continue;
+    const score = similarity(output_value, text);
+    if (score >= NEAR_DUPLICATE_SIMILARITY && score > (closest?.score ?? 0)) {
+      closest = { taskId, score };
+    }
+  }
+  if (closest) {
+    warnings.push({
+      code: "near_duplicate",
+      message: `Answer is ${Math.round(closest.score * 100)}% similar to your answer for task ${closest.taskId}`,
+    });
+  }
+
+  return { output_value, output_hash: sha256hex(output_value), errors, warnings };
+}
@@ -0,0 +1,394 @@
+import { z } from "zod";
+import { API, REQUEST_RETRIES, REQUEST_TIMEOUT_MS } from "./config.js";
+import type { TaskData } from "./processors.js";
+import { httpAuthHeader } from "./nostr.js";
+
+// ─── Response Schemas ────────────────────────────────────
+//
+// Schemas pin down the fields the client relies on and pass everything
+// else through untouched, so additive server changes never break parsing.
+
+const EloSchema = z
+  .object({
+    composite: z.number().optional(),
+    producer: z.number().optional(),
+    reviewer: z.number().optional(),
+    proposer: z.number().optional(),
+  })
+  .passthrough();
+
+const AgentSchema = z
+  .object({
+    agent_id: z.string(),
+    name: z.string().optional(),
+    credits: z.number().optional(),
+    reputation: z.number().optional(),
+    elo: EloSchema.optional(),
+    tasks_completed: z.number().optional(),
+  })
+  .passthrough();
+
+export const EnlistResponseSchema = AgentSchema;
+
+export const TaskSchema = z
+  .object({
+    task_id: z.string(),
+    task_type: z.string(),
+    seed: z.string(),
+    shard_size: z.number(),
+    consensus_mode: z.string(),
+    phase: z.string(),
+    description: z.string().optional(),
+    candidate: z.string().optional(),
+    responses: z
+      .array(
+        z
+          .object({
+            output_hash: z.string(),
+            output_value: z.string().optional(),
+            index: z.number().optional(),
+          })
+          .passthrough(),
+      )
+      .optional(),
+    n_responses: z.number().optional(),
+    lease_expires_at: z.string().optional(),
+    expires_at: z.string().optional(),
+  })
+  .passthrough();
+
+export const SubmitResponseSchema = z
+  .object({
+    status: z.string(),
+    task_id: z.string().optional(),
+    reason: z.string().optional(),
+    credits: z.number().optional(),
+    reputation: z.number().optional(),
+    elo: EloSchema.optional(),
+    credits_earned: z.number().optional(),
+    reputation_delta: z.number().optional(),
+    elo_delta: z.record(z.number()).optional(),
+  })
+  .passthrough();
+
+export const CommitResponseSchema = z
+  .object({
+    status: z.string(),
+    task_id: z.string().optional(),
+    reveal_after: z.string().optional(),
+    reveal_deadline: z.string().optional(),
+  })
+  .passthrough();
+
+export const ProposeResponseSchema = z
+  .object({
+    proposal_id: z.string().optional(),
+    task_id: z.string().optional(),
+    status: z.string().optional(),
+    cost: z.number().optional(),
+    credits: z.number().optional(),
+  })
+  .passthrough();
+
+export const ProposalStatusSchema = z
+  .object({
+    proposal_id: z.string(),
+    task_type: z.string().optional(),
+    status: z.string(),
+    responses: z.number().optional(),
+    consensus: z.record(z.unknown()).optional(),
+    proposer_elo_delta: z.number().optional(),
+  })
+  .passthrough();
+
+export const StatsResponseSchema = z
+  .object({
+    agents: z.number().optional(),
+    total_credits: z.number().optional(),
+    total_reputation: z.number().optional(),
+    tasks_completed: z.number().optional(),
+    tasks_pending: z.number().optional(),
+    queue: z
+      .object({
+        by_type: z.record(z.number()).optional(),
+        by_consensus_mode: z.record(z.number()).optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+export const LeaderboardEntrySchema = AgentSchema.extend({
+  rank: z.number().optional(),
+  win_rate: z.number().optional(),
+});
+
+export const LeaderboardResponseSchema = z
+  .object({ leaderboard: z.array(LeaderboardEntrySchema) })
+  .passthrough();
+
+export type EnlistResponse = z.infer<typeof EnlistResponseSchema>;
+export type SubmitResponse = z.infer<typeof SubmitResponseSchema>;
+export type CommitResponse = z.infer<typeof CommitResponseSchema>;
+export type ProposeResponse = z.infer<typeof ProposeResponseSchema>;
+export type ProposalStatus = z.infer<typeof ProposalStatusSchema>;
+export type StatsResponse = z.infer<typeof StatsResponseSchema>;
+export type LeaderboardEntry = z.infer<typeof LeaderboardEntrySchema>;
+export type LeaderboardResponse = z.infer<typeof LeaderboardResponseSchema>;
+
+// ─── Errors ──────────────────────────────────────────────
+
+export type ApiErrorKind =
+  | "rate_limited"
+  | "insufficient_credits"
+  | "reputation_gate"
+  | "unauthorized"
+  | "not_found"
+  | "reveal_not_open"
+  | "invalid_request"
+  | "server_error"
+  | "network"
+  | "timeout"
+  | "invalid_response";
+
+const ERROR_HINTS: Record<ApiErrorKind, string> = {
+  rate_limited: "Wait before retrying.",
+  insufficient_credits: "Earn credits by completing tasks before spending more.",
+  reputation_gate: "Raise your reputation by completing tasks to unlock this action.",
+  unauthorized: "Check that this identity is enlisted (swarm_enlist) and its key is intact.",
+  not_found: "The task or agent does not exist or has expired; fetch new work.",
+  reveal_not_open: "The reveal window has not opened yet; swarm_reveal sends it once it does.",
+  invalid_request: "Fix the arguments and try again.",
+  server_error: "The swarm API failed; try again later.",
+  network: "The swarm API could not be reached; check connectivity or GRAVITY_SWARM_API.",
+  timeout: "The swarm API did not answer in time; try again later.",
+  invalid_response: "The swarm API returned an unexpected response shape.",
+};
+
+export class SwarmApiError extends Error {
+  constructor(
+    readonly kind: ApiErrorKind,
+    message: string,
+    readonly status: number | null = null,
+    readonly body: unknown = null,
+  ) {
+    super(message);
+    this.name = "SwarmApiError";
+  }
+
+  get hint(): string {
+    return ERROR_HINTS[this.kind];
+  }
+
+  /** True when the same request may succeed if sent again later. */
+  get transient(): boolean {
+    return (
+      this.kind === "network" ||
+      this.kind === "timeout" ||
+      this.kind === "rate_limited" ||
+      this.kind === "server_error"
+    );
+  }
+
+  toJSON() {
+    return {
+      error: this.kind,
+      status: this.status,
+      message: this.message,
+      hint: this.hint,
+    };
+  }
+}
+
+function classify(status: number, message: string): ApiErrorKind {
+  if (status === 429) return "rate_limited";
+  if (status === 402 || /insufficient credits/i.test(message)) return "insufficient_credits";
+  if (/reputation/i.test(message) && (status === 403 || status === 400))
+    return "reputation_gate";
+  if (status === 401 || status === 403) return "unauthorized";
+  if (status === 404) return "not_found";
+  if (status === 425) return "reveal_not_open";
+  if (status >= 500) return "server_error";
+  return "invalid_request";
+}
+
+// ─── HTTP Helper ─────────────────────────────────────────
+//
+// Every attempt is bounded by REQUEST_TIMEOUT_MS. Only idempotent requests
+// are retried: GETs, and POSTs of an already-signed event, which the server
+// deduplicates by event id. GET /work is the exception on a timeout: the
+// server may have leased a task we never saw, and a retry would lease
+// another. Backoff is exponential with full jitter.
+// Requests made for a profile carry a NIP-98 Authorization header signed
+// with its key, so only we can read our queue or act as our agent.
+
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 8_000;
+
+interface RequestOptions extends RequestInit {
+  /** Retry transient failures; set only for idempotent requests. */
+  retry?: boolean;
+  /** The request leases work, so a timed-out attempt is not retried. */
+  leases?: boolean;
+  /** Secret key that signs the NIP-98 Authorization header. */
+  auth?: Uint8Array;
+}
+
+function backoff(attempt: number): number {
+  return Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+}
+
+async function request<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  path: string,
+  options: RequestOptions = {},
+): Promise<T> {
+  const { retry, leases, auth, ...init } = options;
+  const attempts = retry ? REQUEST_RETRIES + 1 : 1;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await attemptRequest(schema, path, init, auth);
+    } catch (err) {
+      if (
+        !(err instanceof SwarmApiError) ||
+        !err.transient ||
+        (leases && err.kind === "timeout") ||
+        attempt + 1 >= attempts
+      ) {
+        throw err;
+      }
+      await new Promise((r) => setTimeout(r, backoff(attempt)));
+    }
+  }
+}
+
+async function attemptRequest<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  path: string,
+  init: RequestInit,
+  auth: Uint8Array | undefined,
+): Promise<T> {
+  const url = `${API}${path}`;
+  const authorization: Record<string, string> = auth
+    ? { Authorization: httpAuthHeader(auth, url, init.method ?? "GET", init.body as string) }
+    : {};
+  let res: Response;
+  let text: string;
+  try {
+    res = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...authorization, ...init.headers },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    text = await res.text();
+  } catch (err) {
+    if ((err as Error).name === "TimeoutError") {
+      throw new SwarmApiError("timeout", `${path}: no response after ${REQUEST_TIMEOUT_MS}ms`);
+    }
+    throw new SwarmApiError("network", `${path}: ${(err as Error).message}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    data = { error: text };
+  }
+
+  if (!res.ok) {
+    const body = data as Record<string, unknown>;
+    const message = String(body?.error ?? body?.message ?? res.statusText);
+    throw new SwarmApiError(classify(res.status, message), message, res.status, data);
+  }
+
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new SwarmApiError(
+      "invalid_response",
+      `${path}: ${issue.path.join(".") || "(root)"} ${issue.message}`,
+      res.status,
+      data,
+    );
+  }
+  return parsed.data;
+}
+
+// ─── Endpoints ───────────────────────────────────────────
+
+function post<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  path: string,
+  event: unknown,
+  retry: boolean,
+  auth: Uint8Array | undefined,
+) {
+  return request(schema, path, { method: "POST", body: JSON.stringify(event), retry, auth });
+}
+
+export function enlist(event: unknown, auth?: Uint8Array): Promise<EnlistResponse> {
+  return post(EnlistResponseSchema, "/enlist", event, false, auth);
+}
+
+/** Returns the next task, or null when the queue has nothing for us. */
+export async function getWork(
+  agentId: string,
+  filters: Record<string, string> = {},
+  auth?: Uint8Array,
+): Promise<TaskData | null> {
+  const query = new URLSearchParams(filters).toString();
+  const path = `/work/${encodeURIComponent(agentId)}${query ? `?${query}` : ""}`;
+  const data = await request(z.record(z.unknown()), path, { retry: true, leases: true, auth });
+  const candidate = (data.task ?? data) as Record<string, unknown>;
+  if (typeof candidate?.task_id !== "string") return null;
+  const parsed = TaskSchema.safeParse(candidate);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new SwarmApiError(
+      "invalid_response",
+      `/work: ${issue.path.join(".")} ${issue.message}`,
+      200,
+      data,
+    );
+  }
+  return parsed.data as TaskData;
+}
+
+/** Safe to resend: the server deduplicates submissions by event id. */
+export function submit(event: unknown, auth?: Uint8Array): Promise<SubmitResponse> {
+  return post(SubmitResponseSchema, "/submit", event, true, auth);
+}
+
+/** Hands a leased task back to the queue unworked. */
+export function release(event: unknown, auth?: Uint8Array): Promise<Record<string, unknown>> {
+  return post(z.record(z.unknown()), "/release", event, true, auth);
+}
+
+/** Sends a salted commitment; resendable like a submission. */
+export function commit(event: unknown, auth?: Uint8Array): Promise<CommitResponse> {
+  return post(CommitResponseSchema, "/commit", event, true, auth);
+}
+
+/** Opens an earlier commitment; the server answers a repeated reveal with the first result. */
+export function reveal(event: unknown, auth?: Uint8Array): Promise<SubmitResponse> {
+  return post(SubmitResponseSchema, "/reveal", event, true, auth);
+}
+
+export function propose(event: unknown, auth?: Uint8Array): Promise<ProposeResponse> {
+  return post(ProposeResponseSchema, "/propose", event, false, auth);
+}
+
+export function getProposal(proposalId: string, auth?: Uint8Array): Promise<ProposalStatus> {
+  return request(ProposalStatusSchema, `/proposals/${encodeURIComponent(proposalId)}`, {
+    retry: true,
+    auth,
+  });
+}
+
+export function getStats(auth?: Uint8Array): Promise<StatsResponse> {
+  return request(StatsResponseSchema, "/stats", { retry: true, auth });
+}
+
+export function getLeaderboard(auth?: Uint8Array): Promise<LeaderboardResponse> {
+  return request(LeaderboardResponseSchema, "/leaderboard", { retry: true, auth });
+}
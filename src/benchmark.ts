@@ -0,0 +1,154 @@
+import { COMPUTE_WORKERS } from "./config.js";
+import type { ComputePool } from "./compute-pool.js";
+import { markdownTable } from "./explorer.js";
+import type { ProgressFn, TaskData } from "./processors.js";
+
+// ─── Compute Benchmark ───────────────────────────────────
+//
+// Times each deterministic processor at a range of shard sizes on the
+// compute pool, one job at a time and without the result cache, so each
+// figure is what a single worker thread delivers per task. Each processor
+// gets one untimed warm-up run first, so thread start-up and JIT are not
+// counted.
+
+export const BENCHMARK_TASK_TYPES = [
+  "fft",
+  "spectral",
+  "simulation",
+  "signal_classify",
+  "monte_carlo",
+  "sha_chain",
+  "hash_search",
+] as const;
+
+export type BenchmarkTaskType = (typeof BENCHMARK_TASK_TYPES)[number];
+
+export const DEFAULT_BENCHMARK_SHARD_SIZES = [256, 1024, 4096, 8192];
+export const MAX_BENCHMARK_SHARD_SIZE = 65536;
+const DEFAULT_RUNS = 3;
+
+/** Consensus mode and phase that route each task type to its built-in processor. */
+const ROUTES: Record<BenchmarkTaskType, Pick<TaskData, "consensus_mode" | "phase">> = {
+  fft: { consensus_mode: "exact", phase: "produce" },
+  spectral: { consensus_mode: "exact", phase: "produce" },
+  simulation: { consensus_mode: "numeric_tolerance", phase: "produce" },
+  signal_classify: { consensus_mode: "vote", phase: "produce" },
+  monte_carlo: { consensus_mode: "exact", phase: "produce" },
+  sha_chain: { consensus_mode: "exact", phase: "produce" },
+  hash_search: { consensus_mode: "verify", phase: "search" },
+};
+
+export interface BenchmarkOptions {
+  taskTypes?: BenchmarkTaskType[];
+  shardSizes?: number[];
+  runs?: number;
+  signal?: AbortSignal;
+  onProgress?: ProgressFn;
+}
+
+export interface BenchmarkRow {
+  task_type: BenchmarkTaskType;
+  shard_size: number;
+  runs: number;
+  min_ms: number;
+  median_ms: number;
+  max_ms: number;
+  /** Throughput of one worker thread at the median time. */
+  tasks_per_hour_per_worker: number;
+}
+
+export interface BenchmarkReport {
+  runtime: { node: string; v8: string; platform: string };
+  compute_workers: number;
+  runs_per_size: number;
+  results: BenchmarkRow[];
+}
+
+function benchmarkTask(taskType: BenchmarkTaskType, shardSize: number, run: number): TaskData {
+  return {
+    task_id: `benchmark-${taskType}-${shardSize}-${run}`,
+    task_type: taskType,
+    // a different seed per run; hash_search cost depends on the seed
+    seed: `benchmark-${run}`,
+    shard_size: shardSize,
+    ...ROUTES[taskType],
+  };
+}
+
+function round(ms: number): number {
+  return Math.round(ms * 100) / 100;
+}
+
+export async function runBenchmark(
+  pool: ComputePool,
+  options: BenchmarkOptions = {},
+): Promise<BenchmarkReport> {
+  const taskTypes = options.taskTypes ?? [...BENCHMARK_TASK_TYPES];
+  const shardSizes = [...new Set(options.shardSizes ?? DEFAULT_BENCHMARK_SHARD_SIZES)].sort(
+    (a, b) => a - b,
+  );
+  const runs = options.runs ?? DEFAULT_RUNS;
+  const total = taskTypes.length * (1 + shardSizes.length * runs);
+  let done = 0;
+  const time = async (task: TaskData): Promise<number> => {
+    const started = performance.now();
+    await pool.run(task, { signal: options.signal, cache: false });
+    options.onProgress?.(++done, total);
+    return performance.now() - started;
+  };
+
+  const results: BenchmarkRow[] = [];
+  for (const taskType of taskTypes) {
+    await time(benchmarkTask(taskType, shardSizes[0], -1));
+    for (const shardSize of shardSizes) {
+      const times: number[] = [];
+      for (let run = 0; run < runs; run++) {
+        times.push(await time(benchmarkTask(taskType, shardSize, run)));
+      }
+      times.sort((a, b) => a - b);
+      const median =
+        times.length % 2 === 1
+          ? times[(times.length - 1) / 2]
+          : (times[times.length / 2 - 1] + times[times.length / 2]) / 2;
+      results.push({
+        task_type: taskType,
+        shard_size: shardSize,
+        runs,
+        min_ms: round(times[0]),
+        median_ms: round(median),
+        max_ms: round(times[times.length - 1]),
+        tasks_per_hour_per_worker: Math.floor(3_600_000 / Math.max(median, 0.01)),
+      });
+    }
+  }
+
+  return {
+    runtime: {
+      node: process.versions.node,
+      v8: process.versions.v8,
+      platform: `${process.platform}-${process.arch}`,
+    },
+    compute_workers: COMPUTE_WORKERS,
+    runs_per_size: runs,
+    results,
+  };
+}
+
+/** Results as a markdown table, one row per task type and shard size. */
+export function benchmarkMarkdown(report: BenchmarkReport): string {
+  return [
+    `Benchmark on node ${report.runtime.node} (${report.runtime.platform}), ${report.runs_per_size} runs per size, uncached; this host runs ${report.compute_workers} compute worker(s).`,
+    "",
+    markdownTable(
+      ["Task type", "Shard size", "Median ms", "Min ms", "Max ms", "Tasks/hour per worker"],
+      report.results.map((r) => [
+        r.task_type,
+        r.shard_size,
+        r.median_ms,
+        r.min_ms,
+        r.max_ms,
+        r.tasks_per_hour_per_worker,
+      ]),
+    ),
+  ].join("\n");
+}
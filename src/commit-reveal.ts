@@ -0,0 +1,357 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { randomBytes } from "node:crypto";
+import type { Event } from "nostr-tools/pure";
+import {
+  commit,
+  reveal,
+  submit,
+  SwarmApiError,
+  type CommitResponse,
+  type SubmitResponse,
+} from "./api.js";
+import { COMMIT_REVEAL } from "./config.js";
+import { getSecretKey, profileDir, type Identity } from "./identity.js";
+import { appendLedger, findTask } from "./ledger.js";
+import { signEvent } from "./nostr.js";
+import { sha256hex } from "./processors.js";
+import { relayHub } from "./relay.js";
+import { recordSubmission } from "./outbox.js";
+
+// ─── Commit–Reveal Submissions ───────────────────────────
+//
+// In review and vote consensus an answer sent in the clear can be copied
+// before the phase closes. Instead a salted commitment is submitted first
+// and the salt and value are revealed once the server opens the reveal
+// window. The salt is written to <profile>/reveals/ before the commitment
+// leaves the process, so a restart never strands a commitment. A swarm that
+// does not take commitments gets the answer as a plain submission instead.
+
+export interface PendingReveal {
+  task_id: string;
+  salt: string;
+  output_hash: string;
+  output_value?: string;
+  commitment: string;
+  /** The signed commit event, resent verbatim until the server acknowledges it. */
+  commit_event: Event;
+  committed_at: string;
+  acknowledged: boolean;
+  reveal_after?: string;
+  reveal_deadline?: string;
+  attempts: number;
+  last_error?: string;
+}
+
+export interface RevealResult {
+  task_id: string;
+  outcome: "revealed" | "submitted" | "dropped" | "waiting";
+  status?: string;
+  reveal_after?: string;
+  error?: string;
+  error_kind?: string;
+}
+
+export interface RevealSummary {
+  revealed: number;
+  /** Answers sent as plain submissions because the swarm takes no commitments. */
+  submitted: number;
+  dropped: number;
+  waiting: number;
+  results: RevealResult[];
+}
+
+/** sha256 over salt, hash and value; the server recomputes it from the reveal. */
+export function commitmentFor(salt: string, outputHash: string, outputValue = ""): string {
+  return sha256hex(`${salt}:${outputHash}:${outputValue}`);
+}
+
+/** Whether a task should be submitted in two phases under the configured policy. */
+export function usesCommitReveal(profile: string, taskId: string): boolean {
+  if (COMMIT_REVEAL === "always") return true;
+  if (COMMIT_REVEAL === "off") return false;
+  const mode = findTask(profile, taskId)?.consensus_mode;
+  return mode === "review" || mode === "vote";
+}
+
+/**
+ * Whether the swarm refused a commitment because it has no commit endpoint.
+ * A 404 may also mean the task is gone; a plain submission then fails the
+ * same way and is recorded like any other refusal.
+ */
+export function commitUnsupported(err: SwarmApiError): boolean {
+  return err.kind === "not_found" || err.status === 405 || err.status === 501;
+}
+
+function revealsDir(profile: string): string {
+  return join(profileDir(profile), "reveals");
+}
+
+function entryFile(profile: string, taskId: string): string {
+  return join(revealsDir(profile), `${encodeURIComponent(taskId)}.json`);
+}
+
+function writeEntry(profile: string, entry: PendingReveal): void {
+  const dir = revealsDir(profile);
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const file = entryFile(profile, entry.task_id);
+  writeFileSync(`${file}.tmp`, JSON.stringify(entry, null, 2), { mode: 0o600 });
+  renameSync(`${file}.tmp`, file);
+}
+
+function removeEntry(profile: string, taskId: string): void {
+  const file = entryFile(profile, taskId);
+  if (existsSync(file)) unlinkSync(file);
+}
+
+export function listPendingReveals(profile: string): PendingReveal[] {
+  const dir = revealsDir(profile);
+  if (!existsSync(dir)) return [];
+  const entries: PendingReveal[] = [];
+  for (const file of readdirSync(dir).sort()) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      entries.push(JSON.parse(readFileSync(join(dir, file), "utf-8")) as PendingReveal);
+    } catch {
+      // a torn write from a crash; the .tmp rename makes this unlikely
+    }
+  }
+  return entries.sort((a, b) => a.committed_at.localeCompare(b.committed_at));
+}
+
+function isDue(entry: PendingReveal, now = Date.now()): boolean {
+  return !entry.acknowledged || !entry.reveal_after || Date.parse(entry.reveal_after) <= now;
+}
+
+/** Pending reveals that can be acted on now: unacknowledged commits or open windows. */
+export function dueReveals(profile: string): PendingReveal[] {
+  const now = Date.now();
+  return listPendingReveals(profile).filter((e) => isDue(e, now));
+}
+
+function acknowledge(entry: PendingReveal, response: CommitResponse): PendingReveal {
+  return {
+    ...entry,
+    acknowledged: true,
+    reveal_after: response.reveal_after,
+    reveal_deadline: response.reveal_deadline,
+    last_error: undefined,
+  };
+}
+
+/**
+ * Submits a salted commitment instead of the answer. A commitment that
+ * cannot be delivered stays pending and is resent by revealPending. When the
+ * swarm has no commit endpoint the entry is removed and the error rethrown
+ * unrecorded, so the caller can submit the answer plainly.
+ */
+export async function commitResult(
+  identity: Identity,
+  taskId: string,
+  outputHash: string,
+  outputValue?: string,
+): Promise<SubmitResponse> {
+  const existing = listPendingReveals(identity.profile).find((e) => e.task_id === taskId);
+  if (existing) {
+    throw new SwarmApiError(
+      "invalid_request",
+      `Task ${taskId} already has a pending commitment; reveal it with swarm_reveal`,
+    );
+  }
+
+  const salt = randomBytes(32).toString("hex");
+  const commitment = commitmentFor(salt, outputHash, outputValue);
+  const event = signEvent(getSecretKey(identity), [
+    ["task_id", taskId],
+    ["commitment", commitment],
+  ]);
+  let entry: PendingReveal = {
+    task_id: taskId,
+    salt,
+    output_hash: outputHash,
+    ...(outputValue !== undefined ? { output_value: outputValue } : {}),
+    commitment,
+    commit_event: event,
+    committed_at: new Date().toISOString(),
+    acknowledged: false,
+    attempts: 0,
+  };
+  writeEntry(identity.profile, entry);
+
+  const relayed = relayHub.publish(event);
+  try {
+    const response = await commit(event, getSecretKey(identity));
+    entry = acknowledge(entry, response);
+    writeEntry(identity.profile, entry);
+    appendLedger(identity.profile, {
+      kind: "commit",
+      task_id: taskId,
+      event_id: event.id,
+      commitment,
+    });
+    const relays = await relayed;
+    return {
+      ...response,
+      status: "committed",
+      task_id: taskId,
+      event_id: event.id,
+      reason: entry.reveal_after
+        ? `answer withheld; it is revealed after ${entry.reveal_after} (swarm_reveal, or automatically before fetching work)`
+        : "answer withheld; reveal it with swarm_reveal",
+      ...(relays.length > 0 ? { relays } : {}),
+    };
+  } catch (err) {
+    if (!(err instanceof SwarmApiError)) throw err;
+    if (commitUnsupported(err)) {
+      removeEntry(identity.profile, taskId);
+      throw err;
+    }
+    if (err.transient) {
+      writeEntry(identity.profile, { ...entry, attempts: 1, last_error: err.message });
+      const relays = await relayed;
+      return {
+        status: "queued",
+        task_id: taskId,
+        event_id: event.id,
+        reason: `${err.message}; commitment kept and resent by swarm_reveal`,
+        ...(relays.length > 0 ? { relays } : {}),
+      };
+    }
+    removeEntry(identity.profile, taskId);
+    recordSubmission(identity.profile, taskId, event, err);
+    throw err;
+  }
+}
+
+const revealing = new Map<string, Promise<RevealSummary>>();
+
+/**
+ * Delivers unacknowledged commitments and reveals every commitment whose
+ * window is open. Reveals refused outright are dropped and recorded in the
+ * ledger; early or transient failures stay pending. A commitment the swarm
+ * has no endpoint for is sent as a plain submission. Concurrent calls for
+ * one profile share a single pass.
+ */
+export function revealPending(identity: Identity, taskId?: string): Promise<RevealSummary> {
+  const key = `${identity.profile}\0${taskId ?? ""}`;
+  let pass = revealing.get(key);
+  if (!pass) {
+    pass = revealPass(identity, taskId).finally(() => revealing.delete(key));
+    revealing.set(key, pass);
+  }
+  return pass;
+}
+
+async function revealPass(identity: Identity, taskId?: string): Promise<RevealSummary> {
+  const summary: RevealSummary = {
+    revealed: 0,
+    submitted: 0,
+    dropped: 0,
+    waiting: 0,
+    results: [],
+  };
+  const entries = listPendingReveals(identity.profile).filter(
+    (e) => taskId === undefined || e.task_id === taskId,
+  );
+
+  const wait = (entry: PendingReveal, err?: SwarmApiError) => {
+    const opensAt = (err?.body as { reveal_after?: unknown } | null)?.reveal_after;
+    const kept = err
+      ? {
+          ...entry,
+          attempts: entry.attempts + 1,
+          last_error: err.message,
+          ...(typeof opensAt === "string" ? { reveal_after: opensAt } : {}),
+        }
+      : entry;
+    if (err) writeEntry(identity.profile, kept);
+    summary.waiting++;
+    summary.results.push({
+      task_id: entry.task_id,
+      outcome: "waiting",
+      ...(kept.reveal_after ? { reveal_after: kept.reveal_after } : {}),
+      ...(err ? { error: err.message, error_kind: err.kind } : {}),
+    });
+  };
+  const drop = (entry: PendingReveal, event: Event, err: SwarmApiError) => {
+    removeEntry(identity.profile, entry.task_id);
+    recordSubmission(identity.profile, entry.task_id, event, err);
+    summary.dropped++;
+    summary.results.push({
+      task_id: entry.task_id,
+      outcome: "dropped",
+      error: err.message,
+      error_kind: err.kind,
+    });
+  };
+  const answerTags = (entry: PendingReveal): string[][] => [
+    ["task_id", entry.task_id],
+    ["output_hash", entry.output_hash],
+    ...(entry.output_value !== undefined ? [["output_value", entry.output_value]] : []),
+  ];
+  const submitPlainly = async (entry: PendingReveal) => {
+    const event = signEvent(getSecretKey(identity), answerTags(entry));
+    try {
+      const response = await submit(event, getSecretKey(identity));
+      void relayHub.publish(event);
+      recordSubmission(identity.profile, entry.task_id, event, response);
+      removeEntry(identity.profile, entry.task_id);
+      summary.submitted++;
+      summary.results.push({ task_id: entry.task_id, outcome: "submitted", status: response.status });
+    } catch (err) {
+      if (!(err instanceof SwarmApiError)) throw err;
+      if (err.transient) wait(entry, err);
+      else drop(entry, event, err);
+    }
+  };
+
+  for (let entry of entries) {
+    if (!entry.acknowledged) {
+      try {
+        entry = acknowledge(entry, await commit(entry.commit_event, getSecretKey(identity)));
+        writeEntry(identity.profile, entry);
+        appendLedger(identity.profile, {
+          kind: "commit",
+          task_id: entry.task_id,
+          event_id: entry.commit_event.id,
+          commitment: entry.commitment,
+        });
+      } catch (err) {
+        if (!(err instanceof SwarmApiError)) throw err;
+        if (commitUnsupported(err)) await submitPlainly(entry);
+        else if (err.transient) wait(entry, err);
+        else drop(entry, entry.commit_event, err);
+        continue;
+      }
+    }
+    if (!isDue(entry)) {
+      wait(entry);
+      continue;
+    }
+
+    // unlike a submission, a reveal may be re-signed: the commitment pins its content
+    const event = signEvent(getSecretKey(identity), [...answerTags(entry), ["salt", entry.salt]]);
+    try {
+      const response = await reveal(event, getSecretKey(identity));
+      // relays only see the salt and value once the swarm has opened the window
+      void relayHub.publish(event);
+      recordSubmission(identity.profile, entry.task_id, event, response);
+      removeEntry(identity.profile, entry.task_id);
+      summary.revealed++;
+      summary.results.push({ task_id: entry.task_id, outcome: "revealed", status: response.status });
+    } catch (err) {
+      if (!(err instanceof SwarmApiError)) throw err;
+      if (err.transient || err.kind === "reveal_not_open") wait(entry, err);
+      else drop(entry, event, err);
+    }
+  }
+  return summary;
+}
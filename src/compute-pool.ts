@@ -0,0 +1,203 @@
+import { Worker } from "node:worker_threads";
+import { COMPUTE_WORKERS, COMPUTE_TIMEOUT_MS } from "./config.js";
+import type { ProgressFn, TaskData, TaskResult } from "./processors.js";
+import type { SelftestReport } from "./selftest.js";
+
+// ─── Compute Pool ────────────────────────────────────────
+//
+// Deterministic processors are tight synchronous loops, so they run on
+// worker threads to keep the MCP event loop free. A running task cannot be
+// interrupted cooperatively; cancellation and timeouts terminate its worker
+// and a fresh one is spawned for the next job. The golden-vector self-test
+// runs here too, since it computes every processor at full size.
+
+export class ComputeAbortedError extends Error {
+  constructor(
+    readonly reason: "cancelled" | "timeout",
+    message: string,
+  ) {
+    super(message);
+    this.name = "ComputeAbortedError";
+  }
+}
+
+export interface RunOptions {
+  signal?: AbortSignal;
+  onProgress?: ProgressFn;
+  timeoutMs?: number;
+  /** Set false to compute even when the result is cached, and not cache it. */
+  cache?: boolean;
+}
+
+type JobPayload = { task: TaskData; cache: boolean } | { selftest: true };
+
+interface Job {
+  id: number;
+  payload: JobPayload;
+  options: RunOptions;
+  resolve(result: unknown): void;
+  reject(err: Error): void;
+  timer?: NodeJS.Timeout;
+  onAbort?: () => void;
+}
+
+export class ComputePool {
+  private readonly idle: Worker[] = [];
+  private readonly busy = new Map<Worker, Job>();
+  private readonly queue: Job[] = [];
+  private nextId = 1;
+  private firstSelftest: Promise<SelftestReport> | null = null;
+  private lastSelftest: SelftestReport | null = null;
+
+  constructor(readonly size: number = COMPUTE_WORKERS) {}
+
+  run(task: TaskData, options: RunOptions = {}): Promise<TaskResult> {
+    return this.enqueue({ task, cache: options.cache !== false }, options);
+  }
+
+  /** Runs the golden-vector self-test on a worker thread. */
+  runSelftest(options: RunOptions = {}): Promise<SelftestReport> {
+    return this.enqueue<SelftestReport>({ selftest: true }, options).then((report) => {
+      this.lastSelftest = report;
+      return report;
+    });
+  }
+
+  /** The self-test, run once; the runtime cannot change underneath us. */
+  selftestOnce(): Promise<SelftestReport> {
+    this.firstSelftest ??= this.runSelftest().catch((err: Error) => {
+      this.firstSelftest = null;
+      throw err;
+    });
+    return this.firstSelftest;
+  }
+
+  /** The latest finished self-test report; null while none has finished. */
+  selftestStatus(): SelftestReport | null {
+    return this.lastSelftest;
+  }
+
+  private enqueue<T>(payload: JobPayload, options: RunOptions): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new ComputeAbortedError("cancelled", "Task cancelled before it started"));
+        return;
+      }
+      const job: Job = {
+        id: this.nextId++,
+        payload,
+        options,
+        resolve: resolve as (result: unknown) => void,
+        reject,
+      };
+      job.onAbort = () => this.abort(job, new ComputeAbortedError("cancelled", "Task cancelled"));
+      options.signal?.addEventListener("abort", job.onAbort, { once: true });
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  async close(): Promise<void> {
+    const workers = [...this.idle, ...this.busy.keys()];
+    this.idle.length = 0;
+    for (const job of [...this.queue, ...this.busy.values()]) {
+      this.settle(job);
+      job.reject(new ComputeAbortedError("cancelled", "Compute pool closed"));
+    }
+    this.queue.length = 0;
+    this.busy.clear();
+    await Promise.all(workers.map((w) => w.terminate()));
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let worker = this.idle.pop();
+      if (!worker) {
+        if (this.busy.size >= this.size) return;
+        worker = this.spawn();
+      }
+      const job = this.queue.shift()!;
+      this.busy.set(worker, job);
+      worker.ref();
+      const timeoutMs = job.options.timeoutMs ?? COMPUTE_TIMEOUT_MS;
+      job.timer = setTimeout(
+        () =>
+          this.abort(
+            job,
+            new ComputeAbortedError("timeout", `Task exceeded ${timeoutMs}ms compute timeout`),
+          ),
+        timeoutMs,
+      );
+      worker.postMessage({ id: job.id, ...job.payload });
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(new URL("./compute-worker.js", import.meta.url));
+    worker.on("message", (msg: WorkerMessage) => this.onMessage(worker, msg));
+    worker.on("error", (err) => this.onCrash(worker, err));
+    worker.on("exit", (code) => {
+      if (this.busy.has(worker)) {
+        this.onCrash(worker, new Error(`Compute worker exited with code ${code}`));
+      }
+    });
+    return worker;
+  }
+
+  private onMessage(worker: Worker, msg: WorkerMessage): void {
+    const job = this.busy.get(worker);
+    if (!job || job.id !== msg.id) return;
+    if (msg.type === "progress") {
+      job.options.onProgress?.(msg.done, msg.total);
+      return;
+    }
+    this.busy.delete(worker);
+    this.settle(job);
+    worker.unref();
+    this.idle.push(worker);
+    if (msg.type === "result") job.resolve(msg.result);
+    else job.reject(new Error(msg.message));
+    this.dispatch();
+  }
+
+  private onCrash(worker: Worker, err: Error): void {
+    const job = this.busy.get(worker);
+    this.busy.delete(worker);
+    if (job) {
+      this.settle(job);
+      job.reject(err);
+    }
+    this.dispatch();
+  }
+
+  private abort(job: Job, err: ComputeAbortedError): void {
+    const queued = this.queue.indexOf(job);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+      this.settle(job);
+      job.reject(err);
+      return;
+    }
+    for (const [worker, running] of this.busy) {
+      if (running !== job) continue;
+      this.busy.delete(worker);
+      this.settle(job);
+      job.reject(err);
+      void worker.terminate();
+      this.dispatch();
+      return;
+    }
+  }
+
+  private settle(job: Job): void {
+    if (job.timer) clearTimeout(job.timer);
+    if (job.onAbort) job.options.signal?.removeEventListener("abort", job.onAbort);
+  }
+}
+
+type WorkerMessage =
+  | { id: number; type: "progress"; done: number; total: number }
+  | { id: number; type: "result"; result: unknown }
+  | { id: number; type: "error"; message: string };
+
+export const computePool = new ComputePool();
@@ -0,0 +1,38 @@
+import { parentPort } from "node:worker_threads";
+import type { TaskData } from "./processors.js";
+import { loadPlugins, processTask } from "./registry.js";
+import { withoutResultCache } from "./result-cache.js";
+import { runSelftest } from "./selftest.js";
+
+// ─── Compute Worker ──────────────────────────────────────
+//
+// Runs one task per message on a worker thread. Protocol:
+//   in:  { id, task, cache } or { id, selftest: true }
+//   out: { id, type: "progress", done, total }
+//        { id, type: "result", result }
+//        { id, type: "error", message }
+
+if (!parentPort) throw new Error("compute-worker must run as a worker thread");
+const port = parentPort;
+
+const ready = loadPlugins();
+
+type Message = { id: number; task: TaskData; cache: boolean } | { id: number; selftest: true };
+
+port.on("message", async (msg: Message) => {
+  const { id } = msg;
+  try {
+    await ready;
+    if ("selftest" in msg) {
+      port.postMessage({ id, type: "result", result: runSelftest() });
+      return;
+    }
+    const { task, cache } = msg;
+    const run = () =>
+      processTask(task, (done, total) => port.postMessage({ id, type: "progress", done, total }));
+    const result = cache ? run() : withoutResultCache(run);
+    port.postMessage({ id, type: "result", result });
+  } catch (err) {
+    port.postMessage({ id, type: "error", message: (err as Error).message });
+  }
+});
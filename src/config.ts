@@ -0,0 +1,149 @@
+import { readFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import { homedir, availableParallelism } from "node:os";
+
+// ─── Config ──────────────────────────────────────────────
+//
+// Resolution order for every setting: environment variable, then
+// config.json in the swarm home directory, then the built-in default.
+
+const DEFAULT_API = "https://gravity-swarm.org/api";
+
+export const SWARM_HOME =
+  process.env.GRAVITY_SWARM_HOME || join(homedir(), ".gravity-swarm");
+export const CONFIG_FILE =
+  process.env.GRAVITY_SWARM_CONFIG || join(SWARM_HOME, "config.json");
+
+export interface SwarmConfig {
+  api?: string;
+  passphraseFile?: string;
+  computeWorkers?: number;
+  computeTimeoutMs?: number;
+  resultCacheSize?: number;
+  plugins?: string[];
+  requestTimeoutMs?: number;
+  retries?: number;
+  httpHost?: string;
+  httpPort?: number;
+  httpToken?: string;
+  httpAllowedHosts?: string[];
+  httpSessionIdleMs?: number;
+  relays?: string[];
+  announcers?: string[];
+  commitReveal?: CommitRevealPolicy;
+  workPolicy?: Partial<WorkPolicy>;
+}
+
+/** Which fetched tasks an agent works on; empty lists allow everything. */
+export interface WorkPolicy {
+  taskTypes: string[];
+  consensusModes: string[];
+  maxShardSize?: number;
+  skipSubjective: boolean;
+  /** release: hand a non-matching task back to the queue; skip: let its lease lapse. */
+  onMismatch: "skip" | "release";
+  /** Extra fetches before giving up when tasks keep not matching. */
+  maxRefetch: number;
+}
+
+/** auto: commit-reveal for review and vote tasks; always: every task; off: never. */
+export type CommitRevealPolicy = "auto" | "always" | "off";
+
+function loadConfigFile(): SwarmConfig {
+  if (!existsSync(CONFIG_FILE)) return {};
+  try {
+    return JSON.parse(readFileSync(CONFIG_FILE, "utf-8")) as SwarmConfig;
+  } catch (err) {
+    throw new Error(`Invalid config file ${CONFIG_FILE}: ${(err as Error).message}`);
+  }
+}
+
+export const config: SwarmConfig = loadConfigFile();
+
+export const API = (
+  process.env.GRAVITY_SWARM_API ||
+  config.api ||
+  DEFAULT_API
+).replace(/\/+$/, "");
+
+export const COMPUTE_WORKERS = Math.max(
+  1,
+  Number(process.env.GRAVITY_SWARM_WORKERS) ||
+    config.computeWorkers ||
+    Math.min(4, Math.max(1, availableParallelism() - 1)),
+);
+
+export const COMPUTE_TIMEOUT_MS =
+  Number(process.env.GRAVITY_SWARM_COMPUTE_TIMEOUT_MS) ||
+  config.computeTimeoutMs ||
+  60_000;
+
+/** Deterministic results kept in memory and on disk; 0 disables the cache. */
+export const RESULT_CACHE_SIZE = Math.max(
+  0,
+  Number(process.env.GRAVITY_SWARM_RESULT_CACHE_SIZE ?? config.resultCacheSize ?? 1000) || 0,
+);
+
+export const REQUEST_TIMEOUT_MS =
+  Number(process.env.GRAVITY_SWARM_TIMEOUT_MS) ||
+  config.requestTimeoutMs ||
+  15_000;
+
+export const REQUEST_RETRIES = Math.max(
+  0,
+  Number(process.env.GRAVITY_SWARM_RETRIES ?? config.retries ?? 3) || 0,
+);
+
+// Streamable HTTP mode (--http); the --host/--port flags take precedence.
+export const HTTP_HOST = process.env.GRAVITY_SWARM_HTTP_HOST || config.httpHost || "127.0.0.1";
+export const HTTP_PORT = Number(process.env.GRAVITY_SWARM_HTTP_PORT) || config.httpPort || 3333;
+export const HTTP_TOKEN = process.env.GRAVITY_SWARM_HTTP_TOKEN || config.httpToken || undefined;
+/** Host names besides the bind address that --http answers to, e.g. behind a proxy. */
+export const HTTP_ALLOWED_HOSTS = list(
+  process.env.GRAVITY_SWARM_HTTP_ALLOWED_HOSTS,
+  config.httpAllowedHosts,
+);
+/** An --http session with no request for this long is closed. */
+export const HTTP_SESSION_IDLE_MS =
+  Number(process.env.GRAVITY_SWARM_HTTP_SESSION_IDLE_MS) || config.httpSessionIdleMs || 30 * 60_000;
+
+function list(env: string | undefined, fallback: string[] | undefined): string[] {
+  const items = env !== undefined ? env.split(",") : (fallback ?? []);
+  return items.map((s) => s.trim()).filter(Boolean);
+}
+
+/** Nostr relays that signed events are also published to; none by default. */
+export const RELAYS = list(process.env.GRAVITY_SWARM_RELAYS, config.relays);
+/** Pubkeys (hex or npub) trusted to announce tasks; empty accepts any valid signature. */
+export const ANNOUNCERS = list(process.env.GRAVITY_SWARM_ANNOUNCERS, config.announcers);
+
+const policy = config.workPolicy ?? {};
+const skipSubjectiveEnv = process.env.GRAVITY_SWARM_SKIP_SUBJECTIVE;
+
+/** Default task-selection policy; swarm_get_work arguments override it per call. */
+export const WORK_POLICY: WorkPolicy = {
+  taskTypes: list(process.env.GRAVITY_SWARM_TASK_TYPES, policy.taskTypes),
+  consensusModes: list(process.env.GRAVITY_SWARM_CONSENSUS_MODES, policy.consensusModes),
+  maxShardSize: Number(process.env.GRAVITY_SWARM_MAX_SHARD_SIZE) || policy.maxShardSize || undefined,
+  skipSubjective:
+    skipSubjectiveEnv !== undefined
+      ? /^(1|true|yes)$/i.test(skipSubjectiveEnv)
+      : (policy.skipSubjective ?? false),
+  onMismatch: policy.onMismatch === "skip" ? "skip" : "release",
+  maxRefetch: Math.max(0, policy.maxRefetch ?? 5),
+};
+
+const COMMIT_REVEAL_POLICIES: CommitRevealPolicy[] = ["auto", "always", "off"];
+
+export const COMMIT_REVEAL: CommitRevealPolicy = (() => {
+  const value = process.env.GRAVITY_SWARM_COMMIT_REVEAL || config.commitReveal || "auto";
+  if (!COMMIT_REVEAL_POLICIES.includes(value as CommitRevealPolicy)) {
+    throw new Error(
+      `Invalid commit-reveal policy "${value}"; expected ${COMMIT_REVEAL_POLICIES.join(", ")}`,
+    );
+  }
+  return value as CommitRevealPolicy;
+})();
+
+export const PROFILES_DIR = join(SWARM_HOME, "profiles");
+export const DEFAULT_PROFILE = "default";
@@ -0,0 +1,289 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { LeaderboardEntry, LeaderboardResponse, StatsResponse } from "./api.js";
+import { SWARM_HOME } from "./config.js";
+
+// ─── Network Explorer ────────────────────────────────────
+//
+// Views over /stats and /leaderboard for swarm_stats and swarm_leaderboard:
+// ranking by track, paging, agent lookup, and changes since the previous
+// call. The last snapshot of each is kept under <swarm home>/snapshots/,
+// shared by every profile, since both describe the whole network.
+
+export const TRACKS = ["composite", "producer", "reviewer", "proposer"] as const;
+export type Track = (typeof TRACKS)[number];
+
+export interface NetworkSnapshot<T> {
+  fetched_at: string;
+  data: T;
+}
+
+const SNAPSHOT_DIR = join(SWARM_HOME, "snapshots");
+
+function snapshotFile(name: string): string {
+  return join(SNAPSHOT_DIR, `${name}.json`);
+}
+
+export function loadSnapshot<T>(name: string): NetworkSnapshot<T> | null {
+  const file = snapshotFile(name);
+  if (!existsSync(file)) return null;
+  try {
+    return JSON.parse(readFileSync(file, "utf-8")) as NetworkSnapshot<T>;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSnapshot<T>(name: string, data: T): NetworkSnapshot<T> {
+  mkdirSync(SNAPSHOT_DIR, { recursive: true, mode: 0o700 });
+  const snapshot = { fetched_at: new Date().toISOString(), data };
+  const file = snapshotFile(name);
+  writeFileSync(`${file}.tmp`, JSON.stringify(snapshot), { mode: 0o600 });
+  renameSync(`${file}.tmp`, file);
+  return snapshot;
+}
+
+/** Renders a compact GitHub-flavoured markdown table. */
+export function markdownTable(headers: string[], rows: Array<Array<string | number>>): string {
+  const cell = (v: string | number) => String(v).replace(/\|/g, "\\|");
+  return [
+    `| ${headers.join(" | ")} |`,
+    `|${headers.map(() => "---").join("|")}|`,
+    ...rows.map((r) => `| ${r.map(cell).join(" | ")} |`),
+  ].join("\n");
+}
+
+function signed(n: number): string {
+  return n > 0 ? `+${n}` : String(n);
+}
+
+// ─── Leaderboard ─────────────────────────────────────────
+
+export interface LeaderboardOptions {
+  track: Track;
+  top: number;
+  page: number;
+  /** Agent id or name (case-insensitive); shows only matching agents. */
+  agent?: string;
+  /** Our agent id, highlighted in the output. */
+  self?: string;
+}
+
+export interface LeaderboardRow {
+  rank: number;
+  agent_id: string;
+  name?: string;
+  elo: number | null;
+  credits?: number;
+  reputation?: number;
+  win_rate?: number;
+  tasks_completed?: number;
+  you: boolean;
+  /** Positive when the agent climbed; "new" when absent from the previous snapshot. */
+  rank_change?: number | "new";
+  elo_delta?: number;
+}
+
+export interface LeaderboardView {
+  track: Track;
+  fetched_at: string;
+  previous_at?: string;
+  total: number;
+  page: number;
+  pages: number;
+  you: { rank: number; elo: number | null } | null;
+  rows: LeaderboardRow[];
+}
+
+function trackElo(entry: LeaderboardEntry, track: Track): number | null {
+  const value = entry.elo?.[track];
+  return typeof value === "number" ? value : null;
+}
+
+/** Ranks by the track's ELO; ties and missing values keep the server's order. */
+function rankBy(entries: LeaderboardEntry[], track: Track) {
+  return entries
+    .map((entry, i) => ({ entry, i, elo: trackElo(entry, track) }))
+    .sort((a, b) => (b.elo ?? -Infinity) - (a.elo ?? -Infinity) || a.i - b.i)
+    .map(({ entry, elo }, i) => ({ rank: i + 1, entry, elo }));
+}
+
+export function leaderboardView(
+  current: NetworkSnapshot<LeaderboardResponse>,
+  previous: NetworkSnapshot<LeaderboardResponse> | null,
+  options: LeaderboardOptions,
+): LeaderboardView {
+  const ranked = rankBy(current.data.leaderboard, options.track);
+  const before = previous
+    ? new Map(rankBy(previous.data.leaderboard, options.track).map((r) => [r.entry.agent_id, r]))
+    : null;
+
+  const toRow = ({ rank, entry, elo }: (typeof ranked)[number]): LeaderboardRow => {
+    const prior = before?.get(entry.agent_id);
+    return {
+      rank,
+      agent_id: entry.agent_id,
+      ...(entry.name ? { name: entry.name } : {}),
+      elo,
+      credits: entry.credits,
+      reputation: entry.reputation,
+      win_rate: entry.win_rate,
+      tasks_completed: entry.tasks_completed,
+      you: entry.agent_id === options.self,
+      ...(before
+        ? {
+            rank_change: prior ? prior.rank - rank : "new",
+            ...(prior && elo !== null && prior.elo !== null ? { elo_delta: elo - prior.elo } : {}),
+          }
+        : {}),
+    };
+  };
+
+  const needle = options.agent?.toLowerCase();
+  const pages = Math.max(1, Math.ceil(ranked.length / options.top));
+  const selected = needle
+    ? ranked.filter(
+        (r) => r.entry.agent_id.toLowerCase() === needle || r.entry.name?.toLowerCase() === needle,
+      )
+    : ranked.slice(options.page * options.top, (options.page + 1) * options.top);
+  const me = ranked.find((r) => r.entry.agent_id === options.self);
+
+  return {
+    track: options.track,
+    fetched_at: current.fetched_at,
+    ...(previous ? { previous_at: previous.fetched_at } : {}),
+    total: ranked.length,
+    page: needle ? 0 : options.page,
+    pages: needle ? 1 : pages,
+    you: me ? { rank: me.rank, elo: me.elo } : null,
+    rows: selected.map(toRow),
+  };
+}
+
+function rankCell(row: LeaderboardRow): string {
+  if (row.rank_change === undefined || row.rank_change === 0) return String(row.rank);
+  if (row.rank_change === "new") return `${row.rank} (new)`;
+  return `${row.rank} ${row.rank_change > 0 ? "↑" : "↓"}${Math.abs(row.rank_change)}`;
+}
+
+export function leaderboardMarkdown(view: LeaderboardView): string {
+  const header = [
+    `**Leaderboard — ${view.track} ELO**, page ${view.page + 1}/${view.pages} of ${view.total} agents`,
+    view.previous_at ? `changes since ${view.previous_at}` : "first snapshot, no changes to show",
+  ].join("; ");
+  const table = markdownTable(
+    ["#", "Agent", "ELO", "ΔELO", "Credits", "Rep", "Win", "Tasks"],
+    view.rows.map((r) => {
+      const agent = `${r.name ?? r.agent_id}${r.name ? ` \`${r.agent_id}\`` : ""}`;
+      return [
+        rankCell(r),
+        r.you ? `**${agent} (you)**` : agent,
+        r.elo ?? "–",
+        r.elo_delta ? signed(r.elo_delta) : "",
+        r.credits ?? "–",
+        r.reputation ?? "–",
+        r.win_rate !== undefined ? `${Math.round(r.win_rate * 100)}%` : "–",
+        r.tasks_completed ?? "–",
+      ];
+    }),
+  );
+  const lines = [header, "", view.rows.length > 0 ? table : "_No matching agents._"];
+  if (view.you && !view.rows.some((r) => r.you)) {
+    lines.push("", `You: rank ${view.you.rank} of ${view.total} (ELO ${view.you.elo ?? "–"}).`);
+  }
+  return lines.join("\n");
+}
+
+// ─── Stats ───────────────────────────────────────────────
+
+const STAT_METRICS = [
+  "agents",
+  "total_credits",
+  "total_reputation",
+  "tasks_completed",
+  "tasks_pending",
+] as const;
+
+export interface StatLine {
+  name: string;
+  value: number | null;
+  delta?: number;
+}
+
+export interface StatsView {
+  fetched_at: string;
+  previous_at?: string;
+  metrics: StatLine[];
+  queue_by_type: StatLine[];
+  queue_by_consensus_mode: StatLine[];
+  /** Any other fields the API returned, such as fast-track status. */
+  other: Record<string, unknown>;
+}
+
+function statLines(
+  current: Record<string, number> | undefined,
+  previous: Record<string, number> | undefined,
+  compare: boolean,
+): StatLine[] {
+  const keys = new Set([...Object.keys(current ?? {}), ...Object.keys(previous ?? {})]);
+  return [...keys].sort().map((name) => {
+    const value = current?.[name] ?? null;
+    const delta = (value ?? 0) - (previous?.[name] ?? 0);
+    return { name, value, ...(compare && delta !== 0 ? { delta } : {}) };
+  });
+}
+
+export function statsView(
+  current: NetworkSnapshot<StatsResponse>,
+  previous: NetworkSnapshot<StatsResponse> | null,
+): StatsView {
+  const pick = (s: StatsResponse | undefined) => {
+    const out: Record<string, number> = {};
+    for (const key of STAT_METRICS) {
+      if (typeof s?.[key] === "number") out[key] = s[key];
+    }
+    return out;
+  };
+  const compare = previous !== null;
+  const other = Object.fromEntries(
+    Object.entries(current.data).filter(
+      ([key]) => key !== "queue" && !(STAT_METRICS as readonly string[]).includes(key),
+    ),
+  );
+  const metrics = statLines(pick(current.data), pick(previous?.data), compare);
+  return {
+    fetched_at: current.fetched_at,
+    ...(previous ? { previous_at: previous.fetched_at } : {}),
+    metrics: STAT_METRICS.flatMap((key) => metrics.filter((m) => m.name === key)),
+    queue_by_type: statLines(current.data.queue?.by_type, previous?.data.queue?.by_type, compare),
+    queue_by_consensus_mode: statLines(
+      current.data.queue?.by_consensus_mode,
+      previous?.data.queue?.by_consensus_mode,
+      compare,
+    ),
+    other,
+  };
+}
+
+export function statsMarkdown(view: StatsView): string {
+  const rows = (lines: StatLine[]) =>
+    lines.map((l) => [l.name, l.value ?? "–", l.delta !== undefined ? signed(l.delta) : ""]);
+  const sections = [
+    `**Network stats**; ${view.previous_at ? `changes since ${view.previous_at}` : "first snapshot, no changes to show"}`,
+    "",
+    markdownTable(["Metric", "Value", "Δ"], rows(view.metrics)),
+  ];
+  if (view.queue_by_type.length > 0) {
+    sections.push("", markdownTable(["Queue by type", "Pending", "Δ"], rows(view.queue_by_type)));
+  }
+  if (view.queue_by_consensus_mode.length > 0) {
+    sections.push(
+      "",
+      markdownTable(["Queue by mode", "Pending", "Δ"], rows(view.queue_by_consensus_mode)),
+    );
+  }
+  if (Object.keys(view.other).length > 0) {
+    sections.push("", `Other: \`${JSON.stringify(view.other)}\``);
+  }
+  return sections.join("\n");
+}
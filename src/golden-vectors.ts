@@ -0,0 +1,329 @@
+import type { TaskData } from "./processors.js";
+
+// ─── Golden Vectors ──────────────────────────────────────
+//
+// Known-good outputs of the canonical processors. Consensus needs these to
+// match the swarm bit-for-bit, so they must never be regenerated to make a
+// failing run pass: a mismatch means the local runtime drifted. Bump
+// GOLDEN_VECTORS_VERSION only when the swarm itself changes an algorithm.
+
+export const GOLDEN_VECTORS_VERSION = 1;
+
+export interface GoldenVector {
+  name: string;
+  task: TaskData;
+  expected: { output_hash: string; output_value?: string };
+}
+
+export const PRNG_VECTORS: Array<{ seed: string; outputs: number[] }> = [
+  {
+    seed: "gravity",
+    outputs: [3350819284, 1113119041, 2463164775, 1899588676, 173603208],
+  },
+  {
+    seed: "a1b2c3d4e5f60718",
+    outputs: [2033988766, 1752413282, 3191795741, 591188745, 1307841168],
+  },
+];
+
+export const GOLDEN_VECTORS: GoldenVector[] = [
+  {
+    name: "fft/64",
+    task: {
+      task_id: "golden-1",
+      task_type: "fft",
+      seed: "a1b2c3d4e5f60718",
+      shard_size: 64,
+      consensus_mode: "exact",
+      phase: "produce",
+    },
+    expected: {
+      output_hash:
+        "8da30a97eb1848a0b4ba712d5c0d905549fbf9d71bfa416bf5de495bdb167b83",
+    },
+  },
+  {
+    name: "fft/1000 (padded to 1024)",
+    task: {
+      task_id: "golden-2",
+      task_type: "fft",
+      seed: "gravity",
+      shard_size: 1000,
+      consensus_mode: "exact",
+      phase: "produce",
+    },
+    expected: {
+      output_hash:
+        "e43eae8a06b7226e303c80adf8b268c25ffda03312ee6d6f76ae8772166c44f9",
+    },
+  },
+  {
+    name: "spectral/1024",
+    task: {
+      task_id: "golden-3",
+      task_type: "spectral",
+      seed: "f00dfeed",
+      shard_size: 1024,
+      consensus_mode: "exact",
+      phase: "produce",
+    },
+    expected: {
+      output_hash:
+        "8afe3844c98b85f20fbfcd9e585ae5646e6b789cc3aa50ab1915c491fc7cd8f6",
+    },
+  },
+  {
+    name: "sha_chain/1",
+    task: {
+      task_id: "golden-4",
+      task_type: "sha_chain",
+      seed: "a1b2c3d4e5f60718",
+      shard_size: 1,
+      consensus_mode: "exact",
+      phase: "produce",
+    },
+    expected: {
+      output_hash:
+        "b82efc46c073d9d8f6dfd0ad738a7074df7789847dd8f041c62e96000323260c",
+    },
+  },
+  {
+    name: "sha_chain/2000",
+    task: {
+      task_id: "golden-5",
+      task_type: "sha_chain",
+      seed: "gravity",
+      shard_size: 2000,
+      consensus_mode: "exact",
+      phase: "produce",
+    },
+    expected: {
+      output_hash:
+        "211ff2cb6a1cced5126b18661de4d366c75d6dea74a7367f39141e77206c0549",
+    },
+  },
+  {
+    name: "sha_chain/20000 (capped at 10000)",
+    task: {
+      task_id: "golden-6",
+      task_type: "sha_chain",
+      seed: "f00dfeed",
+      shard_size: 20000,
+      consensus_mode: "exact",
+      phase: "produce",
+    },
+    expected: {
+      output_hash:
+        "5f04fcce776b3da8aab4a1ccee3d0ce19465d456280f37361328cc249c8c2ada",
+    },
+  },
+  {
+    name: "monte_carlo/100",
+    task: {
+      task_id: "golden-7",
+      task_type: "monte_carlo",
+      seed: "a1b2c3d4e5f60718",
+      shard_size: 100,
+      consensus_mode: "exact",
+      phase: "produce",
+    },
+    expected: {
+      output_hash:
+        "f10326bfcdb34c67a8e51e9a8a59d1f22b852ab40cfacdbcf50f0cdff6910761",
+    },
+  },
+  {
+    name: "monte_carlo/4096",
+    task: {
+      task_id: "golden-8",
+      task_type: "monte_carlo",
+      seed: "gravity",
+      shard_size: 4096,
+      consensus_mode: "exact",
+      phase: "produce",
+    },
+    expected: {
+      output_hash:
+        "15c6fdbd53eb57076cc0bcfa5099008f73ec7cf86a881c5efc88b659333d5d85",
+    },
+  },
+  {
+    name: "simulation/128",
+    task: {
+      task_id: "golden-9",
+      task_type: "simulation",
+      seed: "a1b2c3d4e5f60718",
+      shard_size: 128,
+      consensus_mode: "numeric_tolerance",
+      phase: "produce",
+    },
+    expected: {
+      output_hash:
+        "a9595cc7e2366daca1056e8f15144fda5e2e570818e619461d6cb95f3085de19",
+      output_value: "2.6559138616",
+    },
+  },
+  {
+    name: "simulation/2048",
+    task: {
+      task_id: "golden-10",
+      task_type: "simulation",
+      seed: "gravity",
+      shard_size: 2048,
+      consensus_mode: "numeric_tolerance",
+      phase: "produce",
+    },
+    expected: {
+      output_hash:
+        "1d6c3b7ff7b68c8ca37e5e9c0108bcf4c8dcbc16b9d8f762723fe3bfa01de181",
+      output_value: "12.5335805017",
+    },
+  },
+  {
+    name: "hash_search/16",
+    task: {
+      task_id: "golden-11",
+      task_type: "hash_search",
+      seed: "a1b2c3d4e5f60718",
+      shard_size: 16,
+      consensus_mode: "verify",
+      phase: "search",
+    },
+    expected: {
+      output_hash:
+        "52777055d79a306e134d11ec4356a1582bcbdff603b2ec154b0cde88b5e70dc2",
+      output_value: "b88d33ca22250de9a20e99a9183b7f2cb40e19848d1dd2716cab6ddd944f0dff",
+    },
+  },
+  {
+    name: "hash_search/256",
+    task: {
+      task_id: "golden-12",
+      task_type: "hash_search",
+      seed: "gravity",
+      shard_size: 256,
+      consensus_mode: "verify",
+      phase: "search",
+    },
+    expected: {
+      output_hash:
+        "34b832e0992fba4065fc1918145ded5d3a6d57ca75f7ba6b02d68ebf0a66263d",
+      output_value: "d42d1cf1baf780335e125fd9b21e70effdf2a22c61bf90b153be674c41990d25",
+    },
+  },
+  {
+    name: "hash_search/65536",
+    task: {
+      task_id: "golden-13",
+      task_type: "hash_search",
+      seed: "f00dfeed",
+      shard_size: 65536,
+      consensus_mode: "verify",
+      phase: "search",
+    },
+    expected: {
+      output_hash:
+        "e24b55c684f0a1571b0ca782334090b5ccda0775148394b419f0d4fefe43a88c",
+      output_value: "777ea2c804c0691dbd2de9dd01e346dd30b93dc42c8edb5e33d89a7bdf3530fa",
+    },
+  },
+  {
+    name: "hash_search verify/valid",
+    task: {
+      task_id: "golden-14",
+      task_type: "hash_search",
+      seed: "gravity",
+      shard_size: 256,
+      consensus_mode: "verify",
+      phase: "verify",
+      candidate: "d42d1cf1baf780335e125fd9b21e70effdf2a22c61bf90b153be674c41990d25",
+    },
+    expected: {
+      output_hash:
+        "34b832e0992fba4065fc1918145ded5d3a6d57ca75f7ba6b02d68ebf0a66263d",
+      output_value: "valid",
+    },
+  },
+  {
+    name: "hash_search verify/invalid",
+    task: {
+      task_id: "golden-15",
+      task_type: "hash_search",
+      seed: "gravity",
+      shard_size: 256,
+      consensus_mode: "verify",
+      phase: "verify",
+      candidate: "deadbeef",
+    },
+    expected: {
+      output_hash:
+        "102ec70305679bef1869bd912ee13e142e933360191a00c4eba0c2eb26a23c65",
+      output_value: "invalid",
+    },
+  },
+  {
+    name: "signal_classify/256",
+    task: {
+      task_id: "golden-16",
+      task_type: "signal_classify",
+      seed: "a1b2c3d4e5f60718",
+      shard_size: 256,
+      consensus_mode: "vote",
+      phase: "produce",
+    },
+    expected: {
+      output_hash:
+        "fad1290091d49aebaaa5beb0d610ec1bc26c0b5f31d6c5db1e3e58f6ecb7e16e",
+      output_value: "STRUCTURED_NOISE",
+    },
+  },
+  {
+    name: "signal_classify/4096",
+    task: {
+      task_id: "golden-17",
+      task_type: "signal_classify",
+      seed: "f00dfeed",
+      shard_size: 4096,
+      consensus_mode: "vote",
+      phase: "produce",
+    },
+    expected: {
+      output_hash:
+        "fad1290091d49aebaaa5beb0d610ec1bc26c0b5f31d6c5db1e3e58f6ecb7e16e",
+      output_value: "STRUCTURED_NOISE",
+    },
+  },
+  {
+    name: "signal_classify judge",
+    task: {
+      task_id: "golden-18",
+      task_type: "signal_classify",
+      seed: "gravity",
+      shard_size: 512,
+      consensus_mode: "vote",
+      phase: "judge",
+      responses: [
+        {
+          output_hash:
+            "1761a32e638f6fefe2f427688db3a25e167051c2f0a8c3138b778b4e51eec838",
+          output_value: "PERIODIC",
+        },
+        {
+          output_hash:
+            "fad1290091d49aebaaa5beb0d610ec1bc26c0b5f31d6c5db1e3e58f6ecb7e16e",
+          output_value: "STRUCTURED_NOISE",
+        },
+        {
+          output_hash:
+            "fa1b6b804cbb5e311ff05b6af9bb41160cc238891d9df18f5a6898ac9e8426b4",
+          output_value: "WHITE_NOISE",
+        },
+      ],
+    },
+    expected: {
+      output_hash:
+        "fad1290091d49aebaaa5beb0d610ec1bc26c0b5f31d6c5db1e3e58f6ecb7e16e",
+      output_value: "1",
+    },
+  },
+];
@@ -0,0 +1,220 @@
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { hostname, networkInterfaces } from "node:os";
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { HTTP_ALLOWED_HOSTS, HTTP_SESSION_IDLE_MS } from "./config.js";
+import { inProfileSession, type ProfileSession } from "./identity.js";
+import { createServer } from "./server.js";
+
+// ─── Streamable HTTP Transport ───────────────────────────
+//
+// Serves the tools at /mcp over MCP Streamable HTTP. Each client gets its
+// own session (and McpServer instance) on initialize; the identity store,
+// ledger and compute pool are shared by every session in the process, but
+// each session has its own active profile. Requests must name this server
+// in their Host header, and browsers may only call it from its own origin,
+// so a web page cannot reach a local server through DNS rebinding. A session
+// with no calls for HTTP_SESSION_IDLE_MS is closed, even if its event stream
+// is still open; clients open a new one when they see its 404.
+
+const MCP_PATH = "/mcp";
+const MAX_BODY = 4 * 1024 * 1024;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** When set, every request must carry `Authorization: Bearer <token>`. */
+  token?: string;
+  /** Host header values accepted besides the bind address and its port. */
+  allowedHosts?: string[];
+  idleTimeoutMs?: number;
+}
+
+export interface RunningHttpServer {
+  url: string;
+  sessions(): number;
+  close(): Promise<void>;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  if (res.headersSent) return;
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    ...(status === 401 ? { "WWW-Authenticate": 'Bearer realm="gravity-swarm"' } : {}),
+  });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function authorized(req: IncomingMessage, expected: Buffer): boolean {
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  // compare fixed-length digests so the check takes constant time
+  return match !== null && timingSafeEqual(digest(match[1].trim()), expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY) throw new HttpError(413, "Payload too large");
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new HttpError(400, "Parse error: body must be JSON");
+  }
+}
+
+const LOOPBACK = ["127.0.0.1", "localhost", "::1"];
+const WILDCARD = ["0.0.0.0", "::"];
+
+function bracket(host: string): string {
+  return host.includes(":") ? `[${host}]` : host;
+}
+
+/** The Host header values that name a server bound to `bind` on `port`. */
+function hostHeaders(bind: string, port: number, extra: string[]): string[] {
+  let names = [bind];
+  if (LOOPBACK.includes(bind)) names = LOOPBACK;
+  if (WILDCARD.includes(bind)) {
+    const addresses = Object.values(networkInterfaces()).flatMap((nics) =>
+      (nics ?? []).map((nic) => nic.address),
+    );
+    names = [...LOOPBACK, ...addresses, hostname()];
+  }
+  return [...new Set([...names.map((name) => `${bracket(name)}:${port}`), ...extra])];
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  profile: ProfileSession;
+  lastSeen: number;
+  /** Calls still being handled; an open event stream is not one. */
+  active: number;
+}
+
+export async function startHttpServer(options: HttpServerOptions): Promise<RunningHttpServer> {
+  const sessions = new Map<string, Session>();
+  const expected = options.token ? digest(options.token) : null;
+  const idleTimeoutMs = options.idleTimeoutMs ?? HTTP_SESSION_IDLE_MS;
+  // known once the server is listening, before any session opens
+  let allowedHosts: string[] = [];
+
+  const openSession = async (): Promise<Session> => {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, session);
+      },
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+      allowedOrigins: allowedHosts.flatMap((host) => [`http://${host}`, `https://${host}`]),
+    });
+    const session: Session = {
+      transport,
+      profile: { active: null },
+      lastSeen: Date.now(),
+      active: 0,
+    };
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    await createServer().connect(transport);
+    return session;
+  };
+
+  const serve = async (session: Session, req: IncomingMessage, fn: () => Promise<void>) => {
+    // a client keeps its GET event stream open while otherwise idle
+    const call = req.method !== "GET";
+    session.lastSeen = Date.now();
+    if (call) session.active++;
+    try {
+      await inProfileSession(session.profile, fn);
+    } finally {
+      if (call) session.active--;
+      session.lastSeen = Date.now();
+    }
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname === "/health" && req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ ok: true, sessions: sessions.size }));
+      return;
+    }
+    if (url.pathname !== MCP_PATH) throw new HttpError(404, `No route for ${url.pathname}`);
+    if (expected && !authorized(req, expected)) throw new HttpError(401, "Unauthorized");
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session) throw new HttpError(404, "Session not found");
+      await serve(session, req, () => session.transport.handleRequest(req, res));
+      return;
+    }
+
+    if (req.method !== "POST") throw new HttpError(400, "Missing mcp-session-id header");
+    const body = await readJsonBody(req);
+    if (!isInitializeRequest(body)) {
+      throw new HttpError(400, "Missing mcp-session-id header; send initialize first");
+    }
+    const session = await openSession();
+    await serve(session, req, () => session.transport.handleRequest(req, res, body));
+  };
+
+  const http = createHttpServer((req, res) => {
+    handle(req, res).catch((err: Error) => {
+      if (err instanceof HttpError) sendError(res, err.status, err.message);
+      else sendError(res, 500, err.message);
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    http.once("error", reject);
+    http.listen(options.port, options.host, () => resolve());
+  });
+  const { port } = http.address() as AddressInfo;
+  allowedHosts = hostHeaders(options.host, port, options.allowedHosts ?? HTTP_ALLOWED_HOSTS);
+
+  const sweep = setInterval(
+    () => {
+      const cutoff = Date.now() - idleTimeoutMs;
+      for (const session of sessions.values()) {
+        if (session.active === 0 && session.lastSeen < cutoff) void session.transport.close();
+      }
+    },
+    Math.min(idleTimeoutMs, 60_000),
+  );
+  sweep.unref();
+
+  return {
+    url: `http://${bracket(options.host)}:${port}${MCP_PATH}`,
+    sessions: () => sessions.size,
+    close: async () => {
+      clearInterval(sweep);
+      await Promise.all([...sessions.values()].map((s) => s.transport.close()));
+      http.closeAllConnections();
+      await new Promise<void>((resolve, reject) =>
+        http.close((err) => (err ? reject(err) : resolve())),
+      );
+    },
+  };
+}
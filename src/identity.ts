@@ -0,0 +1,371 @@
+import {
+  readFileSync,
+  writeFileSync,
+  mkdirSync,
+  existsSync,
+  chmodSync,
+  readdirSync,
+  rmSync,
+} from "node:fs";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { join, dirname } from "node:path";
+import { generateSecretKey, getPublicKey } from "nostr-tools/pure";
+import * as nip19 from "nostr-tools/nip19";
+import * as nip49 from "nostr-tools/nip49";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils";
+import {
+  config,
+  SWARM_HOME,
+  PROFILES_DIR,
+  DEFAULT_PROFILE,
+} from "./config.js";
+
+// ─── Identity Manager ────────────────────────────────────
+//
+// On disk the secret key is stored as a NIP-49 ncryptsec whenever a
+// passphrase is configured (GRAVITY_SWARM_PASSPHRASE, or a passphrase file
+// via GRAVITY_SWARM_PASSPHRASE_FILE / config.passphraseFile). Without one,
+// the legacy plaintext secretKeyHex is kept, but the file is still 0600.
+// A plaintext file is upgraded in place the first time a passphrase is seen.
+
+export interface Identity {
+  profile: string;
+  secretKeyHex: string;
+  publicKeyHex: string;
+  agentId: string | null;
+  name: string | null;
+}
+
+interface StoredIdentity {
+  publicKeyHex: string;
+  agentId: string | null;
+  name: string | null;
+  secretKeyHex?: string;
+  ncryptsec?: string;
+}
+
+const decrypted = new Map<string, string>();
+
+export function getPassphrase(): string | undefined {
+  if (process.env.GRAVITY_SWARM_PASSPHRASE) {
+    return process.env.GRAVITY_SWARM_PASSPHRASE;
+  }
+  const file = process.env.GRAVITY_SWARM_PASSPHRASE_FILE || config.passphraseFile;
+  if (!file) return undefined;
+  const passphrase = readFileSync(file, "utf-8").replace(/\r?\n$/, "");
+  if (!passphrase) throw new Error(`Passphrase file ${file} is empty`);
+  return passphrase;
+}
+
+function writePrivate(file: string, data: string): void {
+  mkdirSync(dirname(file), { recursive: true, mode: 0o700 });
+  writeFileSync(file, data, { mode: 0o600 });
+  // mode only applies on creation; tighten files written by older versions
+  chmodSync(file, 0o600);
+}
+
+function decryptSecret(ncryptsec: string, passphrase: string): string {
+  const cached = decrypted.get(ncryptsec);
+  if (cached) return cached;
+  let sk: Uint8Array;
+  try {
+    sk = nip49.decrypt(ncryptsec, passphrase);
+  } catch {
+    throw new Error("Could not decrypt identity: wrong passphrase or corrupted ncryptsec");
+  }
+  const hex = bytesToHex(sk);
+  decrypted.set(ncryptsec, hex);
+  return hex;
+}
+
+function toStored(id: Identity, passphrase: string | undefined): StoredIdentity {
+  const stored: StoredIdentity = {
+    publicKeyHex: id.publicKeyHex,
+    agentId: id.agentId,
+    name: id.name,
+  };
+  if (passphrase) {
+    const ncryptsec = nip49.encrypt(hexToBytes(id.secretKeyHex), passphrase);
+    decrypted.set(ncryptsec, id.secretKeyHex);
+    stored.ncryptsec = ncryptsec;
+  } else {
+    stored.secretKeyHex = id.secretKeyHex;
+  }
+  return stored;
+}
+
+function writeIdentity(file: string, id: Identity): void {
+  const stored = toStored(id, getPassphrase());
+  writePrivate(file, JSON.stringify(stored, null, 2));
+}
+
+function readIdentity(
+  file: string,
+  profile: string,
+): { identity: Identity; encrypted: boolean } {
+  const stored = JSON.parse(readFileSync(file, "utf-8")) as StoredIdentity;
+  let secretKeyHex: string;
+  if (stored.ncryptsec) {
+    const passphrase = getPassphrase();
+    if (!passphrase) {
+      throw new Error(
+        "Identity is encrypted. Set GRAVITY_SWARM_PASSPHRASE or GRAVITY_SWARM_PASSPHRASE_FILE.",
+      );
+    }
+    secretKeyHex = decryptSecret(stored.ncryptsec, passphrase);
+  } else if (stored.secretKeyHex) {
+    secretKeyHex = stored.secretKeyHex;
+  } else {
+    throw new Error(`Identity file ${file} has no secret key`);
+  }
+  return {
+    identity: {
+      profile,
+      secretKeyHex,
+      publicKeyHex: stored.publicKeyHex,
+      agentId: stored.agentId,
+      name: stored.name,
+    },
+    encrypted: Boolean(stored.ncryptsec),
+  };
+}
+
+// ─── Profiles ────────────────────────────────────────────
+//
+// The "default" profile lives directly in the swarm home directory so that
+// identities created before profiles existed keep working unchanged. Every
+// other profile gets its own directory under profiles/. A server shared by
+// several clients (--http) runs each client's requests in a profile
+// session, so switching profiles there affects only that client.
+
+const PROFILE_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]{0,31}$/;
+const ACTIVE_PROFILE_FILE = join(SWARM_HOME, "active_profile");
+
+let activeProfile: string | null = null;
+
+/** One client's active profile; null until it switches. */
+export interface ProfileSession {
+  active: string | null;
+}
+
+const profileSessions = new AsyncLocalStorage<ProfileSession>();
+
+/** Runs `fn` (and everything it awaits) as the given client session. */
+export function inProfileSession<T>(session: ProfileSession, fn: () => T): T {
+  return profileSessions.run(session, fn);
+}
+
+export function validateProfileName(name: string): string {
+  if (!PROFILE_NAME.test(name)) {
+    throw new Error(
+      `Invalid profile name "${name}": use 1-32 letters, digits, '-' or '_'`,
+    );
+  }
+  return name;
+}
+
+export function profileDir(profile: string): string {
+  return profile === DEFAULT_PROFILE ? SWARM_HOME : join(PROFILES_DIR, profile);
+}
+
+function identityFile(profile: string): string {
+  return join(profileDir(profile), "identity.json");
+}
+
+export function getActiveProfile(): string {
+  const session = profileSessions.getStore();
+  if (session?.active) return session.active;
+  if (activeProfile) return activeProfile;
+  if (process.env.GRAVITY_SWARM_PROFILE) {
+    activeProfile = validateProfileName(process.env.GRAVITY_SWARM_PROFILE);
+  } else if (existsSync(ACTIVE_PROFILE_FILE)) {
+    activeProfile = validateProfileName(readFileSync(ACTIVE_PROFILE_FILE, "utf-8").trim());
+  } else {
+    activeProfile = DEFAULT_PROFILE;
+  }
+  return activeProfile;
+}
+
+export function resolveProfile(profile?: string): string {
+  return profile ? validateProfileName(profile) : getActiveProfile();
+}
+
+export function profileExists(profile: string): boolean {
+  return existsSync(identityFile(profile));
+}
+
+export function listProfiles(): string[] {
+  const names = new Set<string>();
+  if (profileExists(DEFAULT_PROFILE)) names.add(DEFAULT_PROFILE);
+  if (existsSync(PROFILES_DIR)) {
+    for (const entry of readdirSync(PROFILES_DIR, { withFileTypes: true })) {
+      if (entry.isDirectory() && profileExists(entry.name)) names.add(entry.name);
+    }
+  }
+  return [...names].sort();
+}
+
+export function switchProfile(profile: string): void {
+  validateProfileName(profile);
+  if (!profileExists(profile)) throw new Error(`Profile "${profile}" does not exist`);
+  const session = profileSessions.getStore();
+  if (session) {
+    // a shared server: neither the other clients nor the next start should follow
+    session.active = profile;
+    return;
+  }
+  mkdirSync(SWARM_HOME, { recursive: true, mode: 0o700 });
+  writeFileSync(ACTIVE_PROFILE_FILE, profile + "\n");
+  activeProfile = profile;
+}
+
+/** Archives the profile's key under retired/ and removes the profile. */
+export function deleteProfile(profile: string): string {
+  if (profile === DEFAULT_PROFILE) {
+    throw new Error("The default profile cannot be deleted; use swarm_identity_rotate instead");
+  }
+  if (profile === getActiveProfile()) {
+    throw new Error(`Profile "${profile}" is active; switch to another profile first`);
+  }
+  const identity = loadIdentity(profile);
+  if (!identity) throw new Error(`Profile "${profile}" does not exist`);
+  const retiredFile = retireIdentity(identity);
+  rmSync(profileDir(profile), { recursive: true, force: true });
+  return retiredFile;
+}
+
+// ─── Load / Save ─────────────────────────────────────────
+
+export function loadIdentity(profile?: string): Identity | null {
+  const name = resolveProfile(profile);
+  const file = identityFile(name);
+  if (!existsSync(file)) return null;
+  return readIdentity(file, name).identity;
+}
+
+export function loadOrCreateIdentity(profile?: string): Identity {
+  const name = resolveProfile(profile);
+  const file = identityFile(name);
+  if (existsSync(file)) {
+    const { identity, encrypted } = readIdentity(file, name);
+    if (!encrypted && getPassphrase()) writeIdentity(file, identity);
+    return identity;
+  }
+  const sk = generateSecretKey();
+  const pk = getPublicKey(sk);
+  const identity: Identity = {
+    profile: name,
+    secretKeyHex: bytesToHex(sk),
+    publicKeyHex: pk,
+    agentId: null,
+    name: null,
+  };
+  writeIdentity(file, identity);
+  return identity;
+}
+
+export function saveIdentity(id: Identity): void {
+  writeIdentity(identityFile(id.profile), id);
+}
+
+export function getSecretKey(id: Identity): Uint8Array {
+  return hexToBytes(id.secretKeyHex);
+}
+
+// ─── Import / Export ─────────────────────────────────────
+
+/**
+ * A profile's public details, read without decrypting or rewriting its key,
+ * so it works for encrypted profiles when no passphrase is available.
+ */
+export function profileSummary(profile: string) {
+  const file = identityFile(profile);
+  const stored = JSON.parse(readFileSync(file, "utf-8")) as StoredIdentity;
+  return {
+    profile,
+    npub: nip19.npubEncode(stored.publicKeyHex),
+    public_key_hex: stored.publicKeyHex,
+    agent_id: stored.agentId,
+    name: stored.name,
+    encrypted_at_rest: Boolean(stored.ncryptsec),
+    file,
+  };
+}
+
+export function describeIdentity(id: Identity) {
+  return profileSummary(id.profile);
+}
+
+export function exportIdentity(
+  id: Identity,
+  format: "nsec" | "ncryptsec",
+  passphrase?: string,
+): string {
+  const sk = getSecretKey(id);
+  if (format === "nsec") return nip19.nsecEncode(sk);
+  const pass = passphrase || getPassphrase();
+  if (!pass) {
+    throw new Error("A passphrase is required to export as ncryptsec");
+  }
+  return nip49.encrypt(sk, pass);
+}
+
+export function parseSecretKey(key: string, passphrase?: string): Uint8Array {
+  const trimmed = key.trim();
+  if (trimmed.startsWith("ncryptsec1")) {
+    const pass = passphrase || getPassphrase();
+    if (!pass) throw new Error("A passphrase is required to import an ncryptsec");
+    try {
+      return nip49.decrypt(trimmed, pass);
+    } catch {
+      throw new Error("Could not decrypt ncryptsec: wrong passphrase or corrupted key");
+    }
+  }
+  if (trimmed.startsWith("nsec1")) {
+    const decoded = nip19.decode(trimmed);
+    if (decoded.type !== "nsec") throw new Error("Not an nsec key");
+    return decoded.data;
+  }
+  if (/^[0-9a-f]{64}$/i.test(trimmed)) return hexToBytes(trimmed.toLowerCase());
+  throw new Error("Unrecognized key format: expected nsec, ncryptsec or 64-char hex");
+}
+
+/**
+ * Replaces the stored identity with the given key. The agent id is kept
+ * only if the public key is unchanged; a different key must re-enlist.
+ */
+export function importIdentity(
+  profile: string,
+  sk: Uint8Array,
+  current: Identity | null,
+): Identity {
+  const pk = getPublicKey(sk);
+  const sameKey = current?.publicKeyHex === pk;
+  const identity: Identity = {
+    profile,
+    secretKeyHex: bytesToHex(sk),
+    publicKeyHex: pk,
+    agentId: sameKey ? current!.agentId : null,
+    name: sameKey ? current!.name : null,
+  };
+  if (current && !sameKey) retireIdentity(current);
+  writeIdentity(identityFile(profile), identity);
+  return identity;
+}
+
+/** Generates a fresh keypair, archiving the current one under retired/. */
+export function rotateIdentity(current: Identity): { identity: Identity; retiredFile: string } {
+  const retiredFile = retireIdentity(current);
+  const identity = importIdentity(current.profile, generateSecretKey(), null);
+  return { identity, retiredFile };
+}
+
+function retireIdentity(id: Identity): string {
+  const file = join(
+    SWARM_HOME,
+    "retired",
+    `${id.profile}-${id.publicKeyHex.substring(0, 12)}-${Date.now()}.json`,
+  );
+  writeIdentity(file, id);
+  return file;
+}
@@ -0,0 +1,148 @@
+import { sha256hex, type TaskResult } from "./processors.js";
+import { spectralResult } from "./result-cache.js";
+
+// ─── Vote Judging ────────────────────────────────────────
+//
+// A judge recomputes the classification and endorses a response that
+// matches it. Responses are checked first: one whose output_hash is not
+// sha256(output_value), or whose value is not a known class, is flagged
+// and never endorsed. When no valid response matches, the honest answer
+// is "none correct", not index 0.
+
+export const SIGNAL_CLASSES = [
+  "PERIODIC",
+  "QUASI_PERIODIC",
+  "STRUCTURED_NOISE",
+  "WHITE_NOISE",
+] as const;
+
+/** Submitted as output_value when no response deserves the vote. */
+export const NONE_CORRECT = "none";
+
+export type ResponseIssue = "missing_value" | "hash_mismatch" | "unknown_class";
+
+export interface VoteResponse {
+  output_hash: string;
+  output_value?: string;
+  index?: number;
+}
+
+export interface ValueGroup {
+  output_value: string;
+  /** Response indices, ascending. */
+  indices: number[];
+  matches_own: boolean;
+}
+
+export interface FlaggedResponse {
+  index: number;
+  issue: ResponseIssue;
+}
+
+export interface Judgement {
+  own_value: string;
+  /** Endorsed response index, or null for "none correct". */
+  choice: number | null;
+  groups: ValueGroup[];
+  flagged: FlaggedResponse[];
+  /** True when the valid responses do not all agree. */
+  disagreement: boolean;
+  explanation: string;
+}
+
+function checkResponse(r: VoteResponse): ResponseIssue | null {
+  if (r.output_value === undefined || r.output_value === "") return "missing_value";
+  if (sha256hex(r.output_value) !== r.output_hash.toLowerCase()) return "hash_mismatch";
+  if (!(SIGNAL_CLASSES as readonly string[]).includes(r.output_value)) return "unknown_class";
+  return null;
+}
+
+/** Groups the valid responses by value and picks the one matching `ownValue`. */
+export function judgeVote(ownValue: string, responses: VoteResponse[]): Judgement {
+  const flagged: FlaggedResponse[] = [];
+  const byValue = new Map<string, number[]>();
+  responses.forEach((r, i) => {
+    const index = r.index ?? i;
+    const issue = checkResponse(r);
+    if (issue) {
+      flagged.push({ index, issue });
+      return;
+    }
+    const indices = byValue.get(r.output_value!) ?? [];
+    indices.push(index);
+    byValue.set(r.output_value!, indices);
+  });
+
+  const groups: ValueGroup[] = [...byValue]
+    .map(([output_value, indices]) => ({
+      output_value,
+      indices: indices.sort((a, b) => a - b),
+      matches_own: output_value === ownValue,
+    }))
+    // largest group first; ties by lowest index so the order is stable
+    .sort((a, b) => b.indices.length - a.indices.length || a.indices[0] - b.indices[0]);
+
+  const match = groups.find((g) => g.matches_own);
+  // every matching response carries the same value, so the lowest index is as good as any
+  const choice = match ? match.indices[0] : null;
+
+  const parts: string[] = [`Our classification is ${ownValue}.`];
+  if (match) {
+    parts.push(
+      match.indices.length > 1
+        ? `Responses ${match.indices.join(", ")} agree with it; endorsing ${choice}, the lowest index.`
+        : `Response ${choice} agrees with it; endorsing it.`,
+    );
+  } else if (groups.length > 0) {
+    parts.push(
+      `No valid response agrees (${groups.map((g) => `${g.output_value} at ${g.indices.join(", ")}`).join("; ")}); voting none correct.`,
+    );
+  } else {
+    parts.push("No valid response to endorse; voting none correct.");
+  }
+  if (groups.length > 1) parts.push(`The valid responses disagree across ${groups.length} values.`);
+  if (flagged.length > 0) {
+    parts.push(
+      `Flagged and excluded: ${flagged.map((f) => `${f.index} (${f.issue.replace("_", " ")})`).join(", ")}.`,
+    );
+  }
+
+  return {
+    own_value: ownValue,
+    choice,
+    groups,
+    flagged,
+    disagreement: groups.length > 1,
+    explanation: parts.join(" "),
+  };
+}
+
+/** The vote to submit for a judgement: the endorsed response, or "none correct". */
+export function judgementResult(judgement: Judgement, responses: VoteResponse[]): TaskResult {
+  if (judgement.choice === null) {
+    return {
+      output_hash: sha256hex(NONE_CORRECT),
+      output_value: NONE_CORRECT,
+      explanation: judgement.explanation,
+    };
+  }
+  const chosen = responses.find((r, i) => (r.index ?? i) === judgement.choice)!;
+  return {
+    output_hash: chosen.output_hash.toLowerCase(),
+    output_value: String(judgement.choice),
+    explanation: judgement.explanation,
+  };
+}
+
+/**
+ * Judges a signal_classify vote task against our own classification, which
+ * the produce phase has usually cached already.
+ */
+export function judgeSignalClassify(
+  seed: string,
+  shardSize: number,
+  responses: VoteResponse[],
+): TaskResult {
+  const own = spectralResult("signal_classify", seed, shardSize).output_value!;
+  return judgementResult(judgeVote(own, responses), responses);
+}
@@ -0,0 +1,271 @@
+import { appendFileSync, readFileSync, existsSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import { profileDir } from "./identity.js";
+import type { TaskData } from "./processors.js";
+
+// ─── Submission Ledger ───────────────────────────────────
+//
+// Append-only JSONL log kept next to each profile's identity. Entries are
+// never rewritten; per-task views are rebuilt by joining on task_id.
+
+export type LedgerEntry =
+  | { kind: "enlist"; ts: string; response: Record<string, unknown> }
+  | { kind: "task"; ts: string; task: TaskData }
+  | {
+      kind: "result";
+      ts: string;
+      task_id: string;
+      output_hash: string;
+      output_value?: string;
+      explanation?: string;
+    }
+  | {
+      kind: "skip";
+      ts: string;
+      task_id: string;
+      reason: string;
+      released: boolean;
+    }
+  | {
+      kind: "commit";
+      ts: string;
+      task_id: string;
+      event_id: string;
+      commitment: string;
+    }
+  | {
+      kind: "spend";
+      ts: string;
+      event_id: string;
+      action: "propose";
+      task_type: string;
+      amount: number;
+    }
+  | { kind: "spend_void"; ts: string; event_id: string; reason: string }
+  | {
+      kind: "proposal";
+      ts: string;
+      event_id: string;
+      task_type: string;
+      question?: string;
+      shard_size?: number;
+      response: Record<string, unknown>;
+    }
+  | {
+      kind: "submission";
+      ts: string;
+      task_id: string;
+      event_id: string;
+      ok: boolean;
+      status: number;
+      response: Record<string, unknown>;
+    };
+
+type WithoutTs<E> = E extends unknown ? Omit<E, "ts"> : never;
+
+export type Outcome = "accepted" | "rejected" | "error" | "skipped" | "pending";
+
+export interface TaskRecord {
+  task_id: string;
+  task_type?: string;
+  consensus_mode?: string;
+  phase?: string;
+  fetched_at?: string;
+  committed_at?: string;
+  submitted_at?: string;
+  output_hash?: string;
+  event_id?: string;
+  outcome: Outcome;
+  reason?: string;
+  credits_earned?: number;
+  reputation?: number;
+  elo_composite?: number;
+}
+
+export interface HistoryFilter {
+  task_type?: string;
+  consensus_mode?: string;
+  outcome?: Outcome;
+  since?: string;
+  until?: string;
+}
+
+function ledgerFile(profile: string): string {
+  return join(profileDir(profile), "ledger.jsonl");
+}
+
+export function appendLedger(profile: string, entry: WithoutTs<LedgerEntry>): void {
+  mkdirSync(profileDir(profile), { recursive: true, mode: 0o700 });
+  const line = JSON.stringify({ ts: new Date().toISOString(), ...entry });
+  appendFileSync(ledgerFile(profile), line + "\n", { mode: 0o600 });
+}
+
+export function readLedger(profile: string): LedgerEntry[] {
+  const file = ledgerFile(profile);
+  if (!existsSync(file)) return [];
+  const entries: LedgerEntry[] = [];
+  for (const line of readFileSync(file, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as LedgerEntry);
+    } catch {
+      // a torn final line from a crash mid-append; skip it
+    }
+  }
+  return entries;
+}
+
+// ─── Queries ─────────────────────────────────────────────
+
+function outcomeOf(ok: boolean, response: Record<string, unknown>): Outcome {
+  if (!ok) return "error";
+  if (response.status === "accepted") return "accepted";
+  if (response.status === "rejected") return "rejected";
+  return "pending";
+}
+
+function compositeOf(response: Record<string, unknown>): number | undefined {
+  const elo = response.elo as Record<string, unknown> | undefined;
+  return typeof elo?.composite === "number" ? elo.composite : undefined;
+}
+
+export function taskRecords(entries: LedgerEntry[]): TaskRecord[] {
+  const records = new Map<string, TaskRecord>();
+  const get = (taskId: string) => {
+    let rec = records.get(taskId);
+    if (!rec) {
+      rec = { task_id: taskId, outcome: "pending" };
+      records.set(taskId, rec);
+    }
+    return rec;
+  };
+
+  for (const entry of entries) {
+    if (entry.kind === "task") {
+      const rec = get(entry.task.task_id);
+      rec.task_type = entry.task.task_type;
+      rec.consensus_mode = entry.task.consensus_mode;
+      rec.phase = entry.task.phase;
+      rec.fetched_at ??= entry.ts;
+    } else if (entry.kind === "result") {
+      get(entry.task_id).output_hash = entry.output_hash;
+    } else if (entry.kind === "skip") {
+      const rec = get(entry.task_id);
+      rec.outcome = "skipped";
+      rec.reason = entry.reason;
+    } else if (entry.kind === "commit") {
+      get(entry.task_id).committed_at = entry.ts;
+    } else if (entry.kind === "submission") {
+      const rec = get(entry.task_id);
+      const r = entry.response;
+      rec.submitted_at = entry.ts;
+      rec.event_id = entry.event_id;
+      rec.outcome = outcomeOf(entry.ok, r);
+      rec.reason =
+        typeof r.reason === "string"
+          ? r.reason
+          : typeof r.error === "string"
+            ? r.error
+            : undefined;
+      if (typeof r.credits_earned === "number") rec.credits_earned = r.credits_earned;
+      if (typeof r.reputation === "number") rec.reputation = r.reputation;
+      rec.elo_composite = compositeOf(r);
+    }
+  }
+  return [...records.values()];
+}
+
+export function queryHistory(profile: string, filter: HistoryFilter): TaskRecord[] {
+  return taskRecords(readLedger(profile)).filter((rec) => {
+    const at = rec.submitted_at ?? rec.fetched_at ?? "";
+    if (filter.task_type && rec.task_type !== filter.task_type) return false;
+    if (filter.consensus_mode && rec.consensus_mode !== filter.consensus_mode) return false;
+    if (filter.outcome && rec.outcome !== filter.outcome) return false;
+    if (filter.since && at < filter.since) return false;
+    if (filter.until && at > filter.until) return false;
+    return true;
+  });
+}
+
+export function newestFirst(records: TaskRecord[]): TaskRecord[] {
+  const at = (r: TaskRecord) => r.submitted_at ?? r.fetched_at ?? "";
+  return records.sort((a, b) => at(b).localeCompare(at(a)));
+}
+
+/** The most recently fetched task, as served by the API. */
+export function lastFetchedTask(profile: string): TaskData | null {
+  const entries = readLedger(profile);
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    if (entry.kind === "task") return entry.task;
+  }
+  return null;
+}
+
+/** The task as fetched, or null if this profile never fetched it. */
+export function findTask(profile: string, taskId: string): TaskData | null {
+  const entries = readLedger(profile);
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    if (entry.kind === "task" && entry.task.task_id === taskId) return entry.task;
+  }
+  return null;
+}
+
+// ─── Stats & Charts ──────────────────────────────────────
+
+const SPARK = "▁▂▃▄▅▆▇█";
+
+export function sparkline(values: number[]): string {
+  if (values.length === 0) return "(no data)";
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const line = values
+    .map((v) => SPARK[Math.round(((v - min) / span) * (SPARK.length - 1))])
+    .join("");
+  return `${line}  ${values[0]} → ${values[values.length - 1]} (min ${min}, max ${max})`;
+}
+
+function breakdown(records: TaskRecord[], key: "task_type" | "consensus_mode") {
+  const out: Record<string, { submitted: number; accepted: number; rejected: number }> = {};
+  for (const rec of records) {
+    if (!rec.submitted_at) continue;
+    const k = rec[key] ?? "unknown";
+    out[k] ??= { submitted: 0, accepted: 0, rejected: 0 };
+    out[k].submitted++;
+    if (rec.outcome === "accepted") out[k].accepted++;
+    if (rec.outcome === "rejected") out[k].rejected++;
+  }
+  return out;
+}
+
+export function summarizeLedger(profile: string, filter: HistoryFilter = {}) {
+  const records = queryHistory(profile, filter);
+  const submitted = records.filter((r) => r.submitted_at);
+  const accepted = submitted.filter((r) => r.outcome === "accepted").length;
+  const rejected = submitted.filter((r) => r.outcome === "rejected").length;
+  const timeline = submitted.sort((a, b) =>
+    (a.submitted_at ?? "").localeCompare(b.submitted_at ?? ""),
+  );
+  const reputation = timeline.flatMap((r) => (r.reputation !== undefined ? [r.reputation] : []));
+  const elo = timeline.flatMap((r) => (r.elo_composite !== undefined ? [r.elo_composite] : []));
+
+  return {
+    profile,
+    tasks_fetched: records.filter((r) => r.fetched_at).length,
+    submitted: submitted.length,
+    accepted,
+    rejected,
+    errors: submitted.filter((r) => r.outcome === "error").length,
+    pending: records.filter((r) => r.outcome === "pending").length,
+    win_rate: accepted + rejected > 0 ? Number((accepted / (accepted + rejected)).toFixed(3)) : null,
+    credits_earned: submitted.reduce((s, r) => s + (r.credits_earned ?? 0), 0),
+    by_task_type: breakdown(records, "task_type"),
+    by_consensus_mode: breakdown(records, "consensus_mode"),
+    charts: {
+      reputation: sparkline(reputation),
+      elo_composite: sparkline(elo),
+    },
+  };
+}
@@ -0,0 +1,44 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+import { startMockServer } from "./server.js";
+
+// ─── Mock Server CLI ─────────────────────────────────────
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      host: { type: "string", default: "127.0.0.1" },
+      port: { type: "string", default: "8787" },
+      "fail-rate": { type: "string", default: "0" },
+      "reveal-delay": { type: "string", default: "1000" },
+      lease: { type: "string", default: "600000" },
+      "no-work-filters": { type: "boolean", default: false },
+      "no-auth": { type: "boolean", default: false },
+      "no-commit-reveal": { type: "boolean", default: false },
+    },
+  });
+
+  const mock = await startMockServer({
+    host: values.host,
+    port: Number(values.port),
+    failRate: Number(values["fail-rate"]),
+    revealDelayMs: Number(values["reveal-delay"]),
+    leaseMs: Number(values.lease),
+    filterWork: !values["no-work-filters"],
+    requireAuth: !values["no-auth"],
+    commitReveal: !values["no-commit-reveal"],
+  });
+  console.log(`Mock Gravity Swarm listening on ${mock.url}`);
+  console.log(`Point the MCP server at it with GRAVITY_SWARM_API=${mock.url}`);
+
+  const shutdown = () => {
+    mock.close().finally(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((err) => {
+  console.error("Fatal:", err);
+  process.exit(1);
+});
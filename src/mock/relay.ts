@@ -0,0 +1,159 @@
+import { matchFilters, type Filter } from "nostr-tools/filter";
+import { verifyEvent, type Event } from "nostr-tools/pure";
+
+// ─── In-Memory Relay ─────────────────────────────────────
+//
+// A NIP-01 relay that lives in the current process. `relay.WebSocket` is a
+// WebSocket-shaped class wired straight to it, so the real relay client
+// (RelayHub) can be exercised without sockets:
+//
+//   const relay = new MemoryRelay();
+//   const hub = new RelayHub(["memory://local"], {
+//     websocketImplementation: relay.WebSocket,
+//   });
+//
+// MemoryRelay.network() maps several URLs to relays for one hub; a socket
+// to any other URL fails to connect, like a relay that is down.
+
+type Message = unknown[];
+
+interface MemorySocketLike {
+  deliver(message: Message): void;
+}
+
+export class MemoryRelay {
+  /** Every accepted event, in arrival order. */
+  readonly events: Event[] = [];
+  /** Events refused for a bad signature. */
+  readonly refused: unknown[] = [];
+  readonly WebSocket: typeof WebSocket;
+
+  private readonly subs = new Map<MemorySocketLike, Map<string, Filter[]>>();
+
+  constructor() {
+    this.WebSocket = createSocketClass(() => this) as unknown as typeof WebSocket;
+  }
+
+  /** A WebSocket class that reaches each relay at its URL and nothing else. */
+  static network(relays: Record<string, MemoryRelay>): typeof WebSocket {
+    return createSocketClass((url) => relays[url]) as unknown as typeof WebSocket;
+  }
+
+  get connections(): number {
+    return this.subs.size;
+  }
+
+  /** Stores a signed event and fans it out, as if a client had sent it. */
+  publish(event: Event): { ok: boolean; message: string } {
+    if (!verifyEvent(event)) {
+      this.refused.push(event);
+      return { ok: false, message: "invalid: bad signature" };
+    }
+    if (this.events.some((e) => e.id === event.id)) {
+      return { ok: true, message: "duplicate: already have this event" };
+    }
+    this.events.push(event);
+    for (const [socket, subs] of this.subs) {
+      for (const [id, filters] of subs) {
+        if (matchFilters(filters, event)) socket.deliver(["EVENT", id, event]);
+      }
+    }
+    return { ok: true, message: "" };
+  }
+
+  /** @internal */
+  attach(socket: MemorySocketLike): void {
+    this.subs.set(socket, new Map());
+  }
+
+  /** @internal */
+  detach(socket: MemorySocketLike): void {
+    this.subs.delete(socket);
+  }
+
+  /** @internal */
+  handle(socket: MemorySocketLike, raw: string): void {
+    let message: Message;
+    try {
+      message = JSON.parse(raw) as Message;
+    } catch {
+      socket.deliver(["NOTICE", "could not parse message"]);
+      return;
+    }
+    const [type, ...rest] = message;
+    if (type === "EVENT") {
+      const event = rest[0] as Event;
+      const { ok, message: reason } = this.publish(event);
+      socket.deliver(["OK", event?.id, ok, reason]);
+    } else if (type === "REQ") {
+      const [id, ...filters] = rest as [string, ...Filter[]];
+      this.subs.get(socket)?.set(id, filters);
+      const limit = Math.min(...filters.map((f) => f.limit ?? Infinity));
+      const stored = this.events.filter((e) => matchFilters(filters, e));
+      for (const event of stored.slice(Math.max(0, stored.length - limit))) {
+        socket.deliver(["EVENT", id, event]);
+      }
+      socket.deliver(["EOSE", id]);
+    } else if (type === "CLOSE") {
+      this.subs.get(socket)?.delete(rest[0] as string);
+    } else {
+      socket.deliver(["NOTICE", `unsupported message type: ${String(type)}`]);
+    }
+  }
+}
+
+function createSocketClass(resolve: (url: string) => MemoryRelay | undefined) {
+  return class MemorySocket implements MemorySocketLike {
+    static readonly CONNECTING = 0;
+    static readonly OPEN = 1;
+    static readonly CLOSING = 2;
+    static readonly CLOSED = 3;
+
+    readyState = MemorySocket.CONNECTING;
+    onopen: (() => void) | null = null;
+    onmessage: ((ev: { data: string }) => void) | null = null;
+    onclose: ((ev: { code: number; reason: string }) => void) | null = null;
+    onerror: (() => void) | null = null;
+
+    private readonly relay: MemoryRelay | undefined;
+
+    constructor(readonly url: string) {
+      this.relay = resolve(url);
+      // open asynchronously, like a real socket
+      setImmediate(() => {
+        if (this.readyState !== MemorySocket.CONNECTING) return;
+        if (!this.relay) {
+          this.readyState = MemorySocket.CLOSED;
+          this.onerror?.();
+          this.onclose?.({ code: 1006, reason: "connection refused" });
+          return;
+        }
+        this.readyState = MemorySocket.OPEN;
+        this.relay.attach(this);
+        this.onopen?.();
+      });
+    }
+
+    send(data: string): void {
+      // like a browser WebSocket: an error while connecting, silently dropped once closed
+      if (this.readyState === MemorySocket.CONNECTING) throw new Error("socket is not open yet");
+      if (this.readyState !== MemorySocket.OPEN) return;
+      setImmediate(() => this.relay?.handle(this, data));
+    }
+
+    deliver(message: Message): void {
+      setImmediate(() => {
+        if (this.readyState === MemorySocket.OPEN) {
+          this.onmessage?.({ data: JSON.stringify(message) });
+        }
+      });
+    }
+
+    close(): void {
+      if (this.readyState === MemorySocket.CLOSED) return;
+      this.readyState = MemorySocket.CLOSED;
+      this.relay?.detach(this);
+      setImmediate(() => this.onclose?.({ code: 1000, reason: "" }));
+    }
+  };
+}
@@ -0,0 +1,770 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { generateSecretKey, verifyEvent, type Event } from "nostr-tools/pure";
+import { GOLDEN_VECTORS, type GoldenVector } from "../golden-vectors.js";
+import { sha256hex, type TaskData } from "../processors.js";
+import { signAnnouncement } from "../relay.js";
+import { commitmentFor } from "../commit-reveal.js";
+import type { MemoryRelay } from "./relay.js";
+import {
+  TASK_TEMPLATES,
+  REVIEW_RESPONSES,
+  SEED_AGENTS,
+  type SeedAgent,
+  type TaskTemplate,
+} from "./fixtures.js";
+
+// ─── Mock Gravity Swarm ──────────────────────────────────
+//
+// In-process stand-in for the public API. Serves the same endpoints as
+// gravity-swarm.org/api, verifies BIP-340 signatures on every POST, and
+// scores submissions against the canonical processors so the full
+// enlist → work → process → submit loop can run without network access.
+// Requests also need a NIP-98 Authorization header from the agent they
+// act for; only /stats and /leaderboard are public.
+
+const EVENT_KIND = 30078;
+const HTTP_AUTH_KIND = 27235;
+const MAX_EVENT_AGE = 600;
+const MAX_AUTH_AGE = 60;
+const PUBLIC_PATHS = new Set(["/stats", "/leaderboard"]);
+const MAX_BODY = 256 * 1024;
+const REVEAL_WINDOW_MS = 10 * 60_000;
+const LEASE_MS = 10 * 60_000;
+const PROPOSAL_RESPONSES = 3;
+const SUBJECTIVE_TYPES = new Set(["open_question", "exam", "analysis"]);
+const PROPOSABLE_TYPES = new Set([
+  "open_question",
+  "exam",
+  "analysis",
+  "signal_classify",
+  "simulation",
+  "fft",
+  "spectral",
+  "monte_carlo",
+  "sha_chain",
+]);
+
+interface MockAgent extends SeedAgent {
+  pubkey: string | null;
+  losses: number;
+  cursor: number;
+  assigned: Map<string, TaskData>;
+}
+
+interface MockProposal {
+  proposal_id: string;
+  agent_id: string;
+  task_type: string;
+  /** state.completed when proposed; the task resolves PROPOSAL_RESPONSES later. */
+  opened_at: number;
+  resolved: boolean;
+}
+
+interface MockCommit {
+  agent_id: string;
+  commitment: string;
+  reveal_after: number;
+  reveal_deadline: number;
+  /** The reveal's scoring, so a repeated reveal is answered, not rescored. */
+  result?: unknown;
+}
+
+interface MockState {
+  agents: Map<string, MockAgent>;
+  byPubkey: Map<string, string>;
+  proposals: MockProposal[];
+  /** Submit responses by event id, so a resent event is answered, not rescored. */
+  submissions: Map<string, unknown>;
+  /** Commitments by task id, awaiting their reveal. */
+  commits: Map<string, MockCommit>;
+  revealDelayMs: number;
+  leaseMs: number;
+  filterWork: boolean;
+  requireAuth: boolean;
+  commitReveal: boolean;
+  completed: number;
+  /** Signs task announcements. */
+  coordinatorKey: Uint8Array;
+  relay?: MemoryRelay;
+}
+
+export interface MockServerOptions {
+  host?: string;
+  port?: number;
+  /** Fraction of requests (0-1) answered with a 503, for exercising retries. */
+  failRate?: number;
+  /** Relay on which accepted proposals are announced as new tasks. */
+  relay?: MemoryRelay;
+  /** Delay between a commitment and the opening of its reveal window (default 1000). */
+  revealDelayMs?: number;
+  /** How long a task handed out by /work stays leased (default ten minutes). */
+  leaseMs?: number;
+  /** Honour the /work query filters (default true); off mimics a server without them. */
+  filterWork?: boolean;
+  /** Refuse non-public requests without NIP-98 auth (default true); off accepts older clients. */
+  requireAuth?: boolean;
+  /** Serve /commit and /reveal (default true); off mimics a server without commit–reveal. */
+  commitReveal?: boolean;
+}
+
+export interface MockSwarm {
+  url: string;
+  close(): Promise<void>;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly extra: Record<string, unknown> = {},
+  ) {
+    super(message);
+  }
+}
+
+// ─── State ───────────────────────────────────────────────
+
+function createState(options: MockServerOptions): MockState {
+  const agents = new Map<string, MockAgent>();
+  for (const seed of SEED_AGENTS) {
+    agents.set(seed.agent_id, {
+      ...seed,
+      elo: { ...seed.elo },
+      pubkey: null,
+      losses: seed.tasks_completed - seed.wins,
+      cursor: 0,
+      assigned: new Map(),
+    });
+  }
+  return {
+    agents,
+    byPubkey: new Map(),
+    proposals: [],
+    submissions: new Map(),
+    commits: new Map(),
+    revealDelayMs: options.revealDelayMs ?? 1000,
+    leaseMs: options.leaseMs ?? LEASE_MS,
+    filterWork: options.filterWork ?? true,
+    requireAuth: options.requireAuth ?? true,
+    commitReveal: options.commitReveal ?? true,
+    completed: 0,
+    coordinatorKey: generateSecretKey(),
+    relay: options.relay,
+  };
+}
+
+function compositeElo(agent: MockAgent): number {
+  const { producer, reviewer, proposer } = agent.elo;
+  return Math.round(producer * 0.5 + reviewer * 0.3 + proposer * 0.2);
+}
+
+function agentSummary(agent: MockAgent) {
+  return {
+    agent_id: agent.agent_id,
+    name: agent.name,
+    credits: agent.credits,
+    reputation: agent.reputation,
+    elo: { composite: compositeElo(agent), ...agent.elo },
+    tasks_completed: agent.tasks_completed,
+  };
+}
+
+// ─── Task Generation ─────────────────────────────────────
+
+function goldenVector(name: string): GoldenVector {
+  const vector = GOLDEN_VECTORS.find((v) => v.name === name);
+  if (!vector) throw new Error(`mock fixture names unknown golden vector "${name}"`);
+  return vector;
+}
+
+/** The golden vector a served task was built from, if any. */
+function goldenFor(task: TaskData): GoldenVector | undefined {
+  return GOLDEN_VECTORS.find(
+    (v) =>
+      v.task.task_type === task.task_type &&
+      v.task.phase === task.phase &&
+      v.task.seed === task.seed &&
+      v.task.shard_size === task.shard_size &&
+      v.task.candidate === task.candidate,
+  );
+}
+
+function buildTask(agent: MockAgent, leaseMs: number): TaskData {
+  const index = agent.cursor % TASK_TEMPLATES.length;
+  const template = TASK_TEMPLATES[index];
+  const id = sha256hex(`mock:${agent.agent_id}:${agent.cursor}`).substring(0, 12);
+  agent.cursor++;
+
+  const vector = template.golden ? goldenVector(template.golden) : undefined;
+  const golden = vector?.task;
+  const task: TaskData = {
+    task_id: `task_${id}`,
+    task_type: template.task_type,
+    seed: golden?.seed ?? id,
+    shard_size: template.shard_size,
+    consensus_mode: template.consensus_mode,
+    phase: template.phase,
+    lease_expires_at: new Date(Date.now() + leaseMs).toISOString(),
+  };
+  if (template.description) task.description = template.description;
+  if (golden?.candidate) task.candidate = golden.candidate;
+
+  if (golden?.responses) {
+    task.responses = golden.responses.map((r, i) => ({ index: i, ...r }));
+    const honest = golden.responses.find((r) => r.output_hash === vector?.expected.output_hash);
+    if (honest?.output_value) {
+      // a response whose hash does not match its value, for judges to flag
+      task.responses.push({
+        index: task.responses.length,
+        output_value: honest.output_value,
+        output_hash: sha256hex(honest.output_value.toLowerCase()),
+      });
+    }
+    task.n_responses = task.responses.length;
+  }
+  if (template.consensus_mode === "review" && template.phase === "review") {
+    task.responses = REVIEW_RESPONSES.map((v, i) => ({
+      index: i,
+      output_value: v,
+      output_hash: sha256hex(v),
+    }));
+    task.n_responses = REVIEW_RESPONSES.length;
+  }
+  return task;
+}
+
+// ─── Scoring ─────────────────────────────────────────────
+
+function scoreSubmission(
+  task: TaskData,
+  outputHash: string,
+  outputValue: string | undefined,
+): { accepted: boolean; reason?: string } {
+  if (task.consensus_mode === "review") {
+    if (outputValue === undefined) return { accepted: false, reason: "output_value required" };
+    if (sha256hex(outputValue) !== outputHash)
+      return { accepted: false, reason: "output_hash does not match output_value" };
+    if (task.phase === "produce") {
+      return outputValue.trim().length >= 10
+        ? { accepted: true }
+        : { accepted: false, reason: "answer too short" };
+    }
+    let ratings: unknown;
+    try {
+      ratings = (JSON.parse(outputValue) as { ratings?: unknown }).ratings;
+    } catch {
+      return { accepted: false, reason: "ratings must be JSON" };
+    }
+    const ok =
+      Array.isArray(ratings) &&
+      ratings.length === (task.responses || []).length &&
+      ratings.every((r) => Number.isInteger(r) && r >= 1 && r <= 5);
+    return ok ? { accepted: true } : { accepted: false, reason: "invalid ratings" };
+  }
+
+  const expected = goldenFor(task)?.expected;
+  if (!expected) return { accepted: false, reason: "no recorded consensus for this task" };
+  if (task.consensus_mode === "numeric_tolerance") {
+    const got = Number(outputValue);
+    const want = Number(expected.output_value);
+    return Math.abs(got - want) <= 1e-6 * Math.max(1, Math.abs(want))
+      ? { accepted: true }
+      : { accepted: false, reason: "value outside tolerance" };
+  }
+  return expected.output_hash === outputHash
+    ? { accepted: true }
+    : { accepted: false, reason: "output_hash does not match consensus" };
+}
+
+// ─── Request Helpers ─────────────────────────────────────
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY) throw new HttpError(413, "payload too large");
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+/** A request's body and the pubkey its NIP-98 header was signed by, if any. */
+interface MockRequest {
+  body: string;
+  caller: string | null;
+}
+
+function readSignedEvent(ctx: MockRequest): Event {
+  let event: Event;
+  try {
+    event = JSON.parse(ctx.body) as Event;
+  } catch {
+    throw new HttpError(400, "body must be a JSON Nostr event");
+  }
+  if (!event || typeof event !== "object" || !verifyEvent(event)) {
+    throw new HttpError(401, "invalid event signature");
+  }
+  if (event.kind !== EVENT_KIND) {
+    throw new HttpError(400, `event kind must be ${EVENT_KIND}`);
+  }
+  if (Math.abs(Math.floor(Date.now() / 1000) - event.created_at) > MAX_EVENT_AGE) {
+    throw new HttpError(401, "event created_at outside accepted window");
+  }
+  if (ctx.caller && ctx.caller !== event.pubkey) {
+    throw new HttpError(401, "Authorization pubkey does not match the event pubkey");
+  }
+  return event;
+}
+
+/** Checks a NIP-98 Authorization header and returns its pubkey, or null without one. */
+function verifyHttpAuth(req: IncomingMessage, url: string, body: string): string | null {
+  const header = req.headers.authorization;
+  if (!header) return null;
+  const match = /^Nostr\s+(\S+)$/i.exec(header);
+  if (!match) throw new HttpError(401, "Authorization must be 'Nostr <base64 event>'");
+  let event: Event;
+  try {
+    event = JSON.parse(Buffer.from(match[1], "base64").toString("utf-8")) as Event;
+  } catch {
+    throw new HttpError(401, "Authorization event is not base64-encoded JSON");
+  }
+  if (!event || typeof event !== "object" || !verifyEvent(event)) {
+    throw new HttpError(401, "invalid Authorization event signature");
+  }
+  if (event.kind !== HTTP_AUTH_KIND) {
+    throw new HttpError(401, `Authorization event kind must be ${HTTP_AUTH_KIND}`);
+  }
+  if (Math.abs(Math.floor(Date.now() / 1000) - event.created_at) > MAX_AUTH_AGE) {
+    throw new HttpError(401, "Authorization event created_at outside accepted window");
+  }
+  const sameUrl = (u: string) => {
+    try {
+      return new URL(u).href === new URL(url).href;
+    } catch {
+      return false;
+    }
+  };
+  const u = tagValue(event, "u");
+  if (!u || !sameUrl(u)) {
+    throw new HttpError(401, "Authorization u tag does not match the request URL");
+  }
+  if (tagValue(event, "method")?.toUpperCase() !== req.method) {
+    throw new HttpError(401, "Authorization method tag does not match the request method");
+  }
+  if (body && tagValue(event, "payload") !== sha256hex(body)) {
+    throw new HttpError(401, "Authorization payload tag does not match the body hash");
+  }
+  return event.pubkey;
+}
+
+function tagValue(event: Event, name: string): string | undefined {
+  return event.tags.find((t) => t[0] === name)?.[1];
+}
+
+function requireAgent(state: MockState, event: Event): MockAgent {
+  const agentId = state.byPubkey.get(event.pubkey);
+  const agent = agentId ? state.agents.get(agentId) : undefined;
+  if (!agent) throw new HttpError(403, "pubkey is not enlisted");
+  return agent;
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+// ─── Handlers ────────────────────────────────────────────
+
+function handleEnlist(state: MockState, ctx: MockRequest) {
+  const event = readSignedEvent(ctx);
+  const name = tagValue(event, "name");
+  if (tagValue(event, "d") !== "gravity-swarm-enlist") {
+    throw new HttpError(400, "missing d=gravity-swarm-enlist tag");
+  }
+  if (!name || name.length > 32) throw new HttpError(400, "name must be 1-32 characters");
+
+  const existing = state.byPubkey.get(event.pubkey);
+  if (existing) {
+    return { ...agentSummary(state.agents.get(existing)!), message: "Already enlisted" };
+  }
+  const agent: MockAgent = {
+    agent_id: `agent_${event.pubkey.substring(0, 12)}`,
+    name,
+    credits: 10,
+    reputation: 50,
+    elo: { producer: 1200, reviewer: 1200, proposer: 1200 },
+    tasks_completed: 0,
+    wins: 0,
+    losses: 0,
+    pubkey: event.pubkey,
+    cursor: 0,
+    assigned: new Map(),
+  };
+  state.agents.set(agent.agent_id, agent);
+  state.byPubkey.set(event.pubkey, agent.agent_id);
+  return { ...agentSummary(agent), message: "Enlisted" };
+}
+
+/** Applies the optional /work query filters to a template. */
+function matchesFilters(template: TaskTemplate, query: URLSearchParams): boolean {
+  const list = (name: string) => query.get(name)?.split(",").filter(Boolean) ?? [];
+  const types = list("task_types");
+  const modes = list("consensus_modes");
+  const maxShard = Number(query.get("max_shard_size")) || Infinity;
+  return (
+    (types.length === 0 || types.includes(template.task_type)) &&
+    (modes.length === 0 || modes.includes(template.consensus_mode)) &&
+    template.shard_size <= maxShard &&
+    !(query.get("skip_subjective") === "true" && SUBJECTIVE_TYPES.has(template.task_type))
+  );
+}
+
+function handleWork(
+  state: MockState,
+  agentId: string,
+  query: URLSearchParams,
+  caller: string | null,
+) {
+  const agent = state.agents.get(agentId);
+  if (!agent || !agent.pubkey) throw new HttpError(404, "unknown agent");
+  if (caller && caller !== agent.pubkey) {
+    throw new HttpError(403, "Authorization pubkey is not this agent's");
+  }
+  if (state.filterWork) {
+    // skip ahead in the cycle to the next template that passes the filters
+    let tries = 0;
+    while (!matchesFilters(TASK_TEMPLATES[agent.cursor % TASK_TEMPLATES.length], query)) {
+      if (++tries > TASK_TEMPLATES.length) return { task: null, message: "no matching work" };
+      agent.cursor++;
+    }
+  }
+  const task = buildTask(agent, state.leaseMs);
+  agent.assigned.set(task.task_id, task);
+  return task;
+}
+
+function handleRelease(state: MockState, ctx: MockRequest) {
+  const event = readSignedEvent(ctx);
+  const agent = requireAgent(state, event);
+  const taskId = tagValue(event, "task_id");
+  if (!taskId || !agent.assigned.delete(taskId)) {
+    throw new HttpError(404, "task not assigned to this agent");
+  }
+  return { status: "released", task_id: taskId };
+}
+
+function handleSubmit(state: MockState, ctx: MockRequest) {
+  const event = readSignedEvent(ctx);
+  const agent = requireAgent(state, event);
+  const previous = state.submissions.get(event.id);
+  if (previous) return previous;
+  const taskId = tagValue(event, "task_id");
+  const outputHash = tagValue(event, "output_hash");
+  const outputValue = tagValue(event, "output_value");
+  if (!taskId || !outputHash) throw new HttpError(400, "task_id and output_hash tags are required");
+  if (state.commits.has(taskId)) {
+    throw new HttpError(409, "task was committed; send a reveal instead");
+  }
+
+  const response = settle(state, agent, taskId, event, outputHash, outputValue);
+  state.submissions.set(event.id, response);
+  return response;
+}
+
+function handleCommit(state: MockState, ctx: MockRequest) {
+  const event = readSignedEvent(ctx);
+  const agent = requireAgent(state, event);
+  const previous = state.submissions.get(event.id);
+  if (previous) return previous;
+  const taskId = tagValue(event, "task_id");
+  const commitment = tagValue(event, "commitment");
+  if (!taskId || !commitment || !/^[0-9a-f]{64}$/.test(commitment)) {
+    throw new HttpError(400, "task_id and a sha256 commitment tag are required");
+  }
+  if (!agent.assigned.has(taskId)) throw new HttpError(404, "task not assigned to this agent");
+  if (state.commits.has(taskId)) throw new HttpError(409, "task already committed");
+
+  const now = Date.now();
+  const entry: MockCommit = {
+    agent_id: agent.agent_id,
+    commitment,
+    reveal_after: now + state.revealDelayMs,
+    reveal_deadline: now + state.revealDelayMs + REVEAL_WINDOW_MS,
+  };
+  state.commits.set(taskId, entry);
+  const response = {
+    status: "committed",
+    task_id: taskId,
+    event_id: event.id,
+    reveal_after: new Date(entry.reveal_after).toISOString(),
+    reveal_deadline: new Date(entry.reveal_deadline).toISOString(),
+  };
+  state.submissions.set(event.id, response);
+  return response;
+}
+
+function handleReveal(state: MockState, ctx: MockRequest) {
+  const event = readSignedEvent(ctx);
+  const agent = requireAgent(state, event);
+  const taskId = tagValue(event, "task_id");
+  const outputHash = tagValue(event, "output_hash");
+  const outputValue = tagValue(event, "output_value");
+  const salt = tagValue(event, "salt");
+  if (!taskId || !outputHash || !salt) {
+    throw new HttpError(400, "task_id, output_hash and salt tags are required");
+  }
+  const entry = state.commits.get(taskId);
+  if (!entry || entry.agent_id !== agent.agent_id) {
+    throw new HttpError(404, "no commitment for this task");
+  }
+  if (entry.result) return entry.result;
+
+  const now = Date.now();
+  if (now < entry.reveal_after) {
+    const opens = new Date(entry.reveal_after).toISOString();
+    throw new HttpError(425, `reveal window opens at ${opens}`, { reveal_after: opens });
+  }
+  if (now > entry.reveal_deadline) throw new HttpError(410, "reveal window closed");
+  if (commitmentFor(salt, outputHash, outputValue) !== entry.commitment) {
+    throw new HttpError(400, "reveal does not match commitment");
+  }
+
+  entry.result = settle(state, agent, taskId, event, outputHash, outputValue);
+  return entry.result;
+}
+
+/** Scores an answer for an assigned task and applies the rewards. */
+function settle(
+  state: MockState,
+  agent: MockAgent,
+  taskId: string,
+  event: Event,
+  outputHash: string,
+  outputValue: string | undefined,
+) {
+  const task = agent.assigned.get(taskId);
+  if (!task) throw new HttpError(404, "task not assigned to this agent");
+  agent.assigned.delete(taskId);
+
+  const { accepted, reason } = scoreSubmission(task, outputHash, outputValue);
+  const track =
+    task.phase === "review" || task.phase === "judge" || task.phase === "verify"
+      ? "reviewer"
+      : "producer";
+  const creditDelta = accepted ? (SUBJECTIVE_TYPES.has(task.task_type) ? 2 : 1) : 0;
+  const reputationDelta = accepted ? 1 : -1;
+  const eloDelta = accepted ? 8 : -8;
+
+  agent.credits += creditDelta;
+  agent.reputation = Math.max(0, agent.reputation + reputationDelta);
+  agent.elo[track] += eloDelta;
+  agent.tasks_completed++;
+  if (accepted) agent.wins++;
+  else agent.losses++;
+  state.completed++;
+
+  return {
+    status: accepted ? "accepted" : "rejected",
+    task_id: taskId,
+    event_id: event.id,
+    ...(reason ? { reason } : {}),
+    credits_earned: creditDelta,
+    reputation_delta: reputationDelta,
+    elo_delta: { [track]: eloDelta },
+    ...agentSummary(agent),
+  };
+}
+
+function handlePropose(state: MockState, ctx: MockRequest) {
+  const event = readSignedEvent(ctx);
+  const agent = requireAgent(state, event);
+  const taskType = tagValue(event, "task_type");
+  const question = tagValue(event, "question");
+  const shardSize = tagValue(event, "shard_size");
+
+  if (!taskType || !PROPOSABLE_TYPES.has(taskType)) {
+    throw new HttpError(400, `unsupported task_type: ${taskType ?? "(missing)"}`);
+  }
+  const subjective = SUBJECTIVE_TYPES.has(taskType);
+  const cost = subjective ? 10 : 5;
+  const minReputation = subjective ? 100 : 50;
+  if (subjective && (!question || question.length < 20 || question.length > 500)) {
+    throw new HttpError(400, "question must be 20-500 characters");
+  }
+  if (shardSize !== undefined && !(Number(shardSize) > 0 && Number(shardSize) <= 8192)) {
+    throw new HttpError(400, "shard_size must be between 1 and 8192");
+  }
+  if (agent.reputation < minReputation) {
+    throw new HttpError(403, `reputation ${agent.reputation} below required ${minReputation}`);
+  }
+  if (agent.credits < cost) {
+    throw new HttpError(402, `insufficient credits: need ${cost}, have ${agent.credits}`);
+  }
+
+  agent.credits -= cost;
+  const proposal: MockProposal = {
+    proposal_id: `prop_${event.id.substring(0, 12)}`,
+    agent_id: agent.agent_id,
+    task_type: taskType,
+    opened_at: state.completed,
+    resolved: false,
+  };
+  state.proposals.push(proposal);
+  state.relay?.publish(
+    signAnnouncement(state.coordinatorKey, {
+      task_id: proposal.proposal_id,
+      task_type: taskType,
+      consensus_mode: TASK_TEMPLATES.find((t) => t.task_type === taskType)?.consensus_mode,
+      description: question,
+    }),
+  );
+  return {
+    proposal_id: proposal.proposal_id,
+    agent_id: agent.agent_id,
+    task_type: taskType,
+    status: "queued",
+    cost,
+    credits: agent.credits,
+  };
+}
+
+/**
+ * A proposal counts one response per task completed anywhere in the swarm
+ * and resolves after PROPOSAL_RESPONSES, crediting the proposer's ELO once.
+ */
+function handleProposal(state: MockState, proposalId: string, caller: string | null) {
+  const proposal = state.proposals.find((p) => p.proposal_id === proposalId);
+  if (!proposal) throw new HttpError(404, "unknown proposal");
+  if (caller && state.byPubkey.get(caller) !== proposal.agent_id) {
+    throw new HttpError(403, "only the proposer can read a proposal's status");
+  }
+  const responses = Math.min(PROPOSAL_RESPONSES, state.completed - proposal.opened_at);
+  const subjective = SUBJECTIVE_TYPES.has(proposal.task_type);
+  const base = {
+    proposal_id: proposal.proposal_id,
+    task_type: proposal.task_type,
+    consensus_mode: TASK_TEMPLATES.find((t) => t.task_type === proposal.task_type)?.consensus_mode,
+    responses,
+  };
+  if (responses < PROPOSAL_RESPONSES) return { ...base, status: responses > 0 ? "open" : "queued" };
+
+  const eloDelta = 8;
+  if (!proposal.resolved) {
+    proposal.resolved = true;
+    const agent = state.agents.get(proposal.agent_id);
+    if (agent) agent.elo.proposer += eloDelta;
+  }
+  return {
+    ...base,
+    status: "resolved",
+    consensus: subjective
+      ? { outcome: "reviewed", mean_rating: 3.7 }
+      : { outcome: "agreed", agreement: 1 },
+    proposer_elo_delta: eloDelta,
+  };
+}
+
+function handleStats(state: MockState) {
+  const agents = [...state.agents.values()];
+  const byType: Record<string, number> = {};
+  const byMode: Record<string, number> = {};
+  for (const t of TASK_TEMPLATES) {
+    byType[t.task_type] = (byType[t.task_type] || 0) + 1;
+    byMode[t.consensus_mode] = (byMode[t.consensus_mode] || 0) + 1;
+  }
+  for (const p of state.proposals) byType[p.task_type] = (byType[p.task_type] || 0) + 1;
+  return {
+    agents: agents.length,
+    total_credits: agents.reduce((s, a) => s + a.credits, 0),
+    total_reputation: agents.reduce((s, a) => s + a.reputation, 0),
+    tasks_completed: agents.reduce((s, a) => s + a.tasks_completed, 0),
+    tasks_pending: TASK_TEMPLATES.length + state.proposals.length,
+    queue: { by_type: byType, by_consensus_mode: byMode },
+    fast_track: { active: false, threshold_reputation: 200 },
+  };
+}
+
+function handleLeaderboard(state: MockState) {
+  const ranked = [...state.agents.values()].sort(
+    (a, b) => compositeElo(b) - compositeElo(a),
+  );
+  return {
+    leaderboard: ranked.map((a, i) => ({
+      rank: i + 1,
+      ...agentSummary(a),
+      win_rate:
+        a.tasks_completed > 0 ? Number((a.wins / a.tasks_completed).toFixed(3)) : 0,
+    })),
+  };
+}
+
+// ─── Server ──────────────────────────────────────────────
+
+export async function startMockServer(
+  options: MockServerOptions = {},
+): Promise<MockSwarm> {
+  const state = createState(options);
+  const host = options.host ?? "127.0.0.1";
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://mock");
+    const path = url.pathname.replace(/^\/api/, "").replace(/\/+$/, "");
+    try {
+      if (options.failRate && Math.random() < options.failRate) {
+        throw new HttpError(503, "injected failure");
+      }
+      const raw = req.method === "POST" ? await readBody(req) : "";
+      const caller = verifyHttpAuth(req, `http://${req.headers.host}${req.url}`, raw);
+      if (!caller && state.requireAuth && !PUBLIC_PATHS.has(path)) {
+        throw new HttpError(401, "missing NIP-98 Authorization header");
+      }
+      const ctx: MockRequest = { body: raw, caller };
+
+      let body: unknown;
+      if (req.method === "POST" && path === "/enlist") body = handleEnlist(state, ctx);
+      else if (req.method === "GET" && path.startsWith("/work/"))
+        body = handleWork(
+          state,
+          decodeURIComponent(path.substring("/work/".length)),
+          url.searchParams,
+          caller,
+        );
+      else if (req.method === "POST" && path === "/submit") body = handleSubmit(state, ctx);
+      else if (req.method === "POST" && path === "/release") body = handleRelease(state, ctx);
+      else if (req.method === "POST" && path === "/commit" && state.commitReveal)
+        body = handleCommit(state, ctx);
+      else if (req.method === "POST" && path === "/reveal" && state.commitReveal)
+        body = handleReveal(state, ctx);
+      else if (req.method === "POST" && path === "/propose") body = handlePropose(state, ctx);
+      else if (req.method === "GET" && path.startsWith("/proposals/"))
+        body = handleProposal(
+          state,
+          decodeURIComponent(path.substring("/proposals/".length)),
+          caller,
+        );
+      else if (req.method === "GET" && path === "/stats") body = handleStats(state);
+      else if (req.method === "GET" && path === "/leaderboard") body = handleLeaderboard(state);
+      else throw new HttpError(404, `no route for ${req.method} ${url.pathname}`);
+      send(res, 200, body);
+    } catch (err) {
+      if (err instanceof HttpError) send(res, err.status, { error: err.message, ...err.extra });
+      else send(res, 500, { error: (err as Error).message });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, host, () => resolve());
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://${host}:${port}/api`,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((err) => (err ? reject(err) : resolve())),
+      ),
+  };
+}
@@ -0,0 +1,40 @@
+import { createHash } from "node:crypto";
+import { finalizeEvent } from "nostr-tools/pure";
+
+// ─── Nostr Event Signing ─────────────────────────────────
+
+/** Application-specific data (NIP-78); every swarm event uses this kind. */
+export const SWARM_EVENT_KIND = 30078;
+
+/** NIP-98 HTTP Auth. */
+export const HTTP_AUTH_KIND = 27235;
+
+export function signEvent(sk: Uint8Array, tags: string[][], content: string = "") {
+  return finalizeEvent(
+    {
+      kind: SWARM_EVENT_KIND,
+      created_at: Math.floor(Date.now() / 1000),
+      tags,
+      content,
+    },
+    sk,
+  );
+}
+
+/**
+ * An `Authorization: Nostr <base64 event>` value (NIP-98) binding one
+ * request's absolute URL, method and body hash to our key. Signed per
+ * attempt, since servers only accept events from the last minute.
+ */
+export function httpAuthHeader(sk: Uint8Array, url: string, method: string, body?: string): string {
+  const tags = [
+    ["u", url],
+    ["method", method.toUpperCase()],
+  ];
+  if (body) tags.push(["payload", createHash("sha256").update(body).digest("hex")]);
+  const event = finalizeEvent(
+    { kind: HTTP_AUTH_KIND, created_at: Math.floor(Date.now() / 1000), tags, content: "" },
+    sk,
+  );
+  return `Nostr ${Buffer.from(JSON.stringify(event)).toString("base64")}`;
+}
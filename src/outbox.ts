@@ -0,0 +1,166 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import type { Event } from "nostr-tools/pure";
+import { submit, SwarmApiError, type SubmitResponse } from "./api.js";
+import { getSecretKey, loadIdentity, profileDir } from "./identity.js";
+import { appendLedger } from "./ledger.js";
+import { relayHub } from "./relay.js";
+
+// ─── Submission Outbox ───────────────────────────────────
+//
+// Signed submission events that could not be delivered are kept, one file
+// per event, under <profile>/outbox/ and resent verbatim later. An event is
+// never re-signed: a new created_at would make it a different submission.
+
+export interface OutboxEntry {
+  task_id: string;
+  event: Event;
+  queued_at: string;
+  attempts: number;
+  last_error?: string;
+}
+
+export interface FlushResult {
+  task_id: string;
+  event_id: string;
+  outcome: "sent" | "dropped" | "kept";
+  status?: string;
+  error?: string;
+  error_kind?: string;
+}
+
+export interface FlushSummary {
+  sent: number;
+  dropped: number;
+  remaining: number;
+  results: FlushResult[];
+}
+
+function outboxDir(profile: string): string {
+  return join(profileDir(profile), "outbox");
+}
+
+function entryFile(profile: string, eventId: string): string {
+  return join(outboxDir(profile), `${eventId}.json`);
+}
+
+function writeEntry(profile: string, entry: OutboxEntry): void {
+  const dir = outboxDir(profile);
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const file = entryFile(profile, entry.event.id);
+  writeFileSync(`${file}.tmp`, JSON.stringify(entry, null, 2), { mode: 0o600 });
+  renameSync(`${file}.tmp`, file);
+}
+
+export function enqueueSubmission(
+  profile: string,
+  taskId: string,
+  event: Event,
+  error: SwarmApiError,
+): OutboxEntry {
+  const entry: OutboxEntry = {
+    task_id: taskId,
+    event,
+    queued_at: new Date().toISOString(),
+    attempts: 1,
+    last_error: error.message,
+  };
+  writeEntry(profile, entry);
+  return entry;
+}
+
+export function listOutbox(profile: string): OutboxEntry[] {
+  const dir = outboxDir(profile);
+  if (!existsSync(dir)) return [];
+  const entries: OutboxEntry[] = [];
+  for (const file of readdirSync(dir).sort()) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      entries.push(JSON.parse(readFileSync(join(dir, file), "utf-8")) as OutboxEntry);
+    } catch {
+      // a torn write from a crash; the .tmp rename makes this unlikely
+    }
+  }
+  return entries.sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+}
+
+/** Records a delivered or finally-refused event in the ledger. */
+export function recordSubmission(
+  profile: string,
+  taskId: string,
+  event: Event,
+  outcome: SubmitResponse | SwarmApiError,
+): void {
+  const failed = outcome instanceof SwarmApiError;
+  appendLedger(profile, {
+    kind: "submission",
+    task_id: taskId,
+    event_id: event.id,
+    ok: !failed,
+    status: failed ? (outcome.status ?? 0) : 200,
+    response: failed ? outcome.toJSON() : outcome,
+  });
+}
+
+const flushing = new Map<string, Promise<FlushSummary>>();
+
+/**
+ * Resends every queued event for a profile, oldest first. Delivered events
+ * and events the server refuses outright are removed; transient failures
+ * stay queued. Concurrent calls for one profile share a single pass.
+ */
+export function flushOutbox(profile: string): Promise<FlushSummary> {
+  let pass = flushing.get(profile);
+  if (!pass) {
+    pass = flushPass(profile).finally(() => flushing.delete(profile));
+    flushing.set(profile, pass);
+  }
+  return pass;
+}
+
+async function flushPass(profile: string): Promise<FlushSummary> {
+  const summary: FlushSummary = { sent: 0, dropped: 0, remaining: 0, results: [] };
+  let offline = false;
+  const identity = loadIdentity(profile);
+  const auth = identity ? getSecretKey(identity) : undefined;
+
+  for (const entry of listOutbox(profile)) {
+    const base = { task_id: entry.task_id, event_id: entry.event.id };
+    if (offline) {
+      summary.remaining++;
+      summary.results.push({ ...base, outcome: "kept", error: entry.last_error });
+      continue;
+    }
+    try {
+      const response = await submit(entry.event, auth);
+      void relayHub.publish(entry.event);
+      recordSubmission(profile, entry.task_id, entry.event, response);
+      unlinkSync(entryFile(profile, entry.event.id));
+      summary.sent++;
+      summary.results.push({ ...base, outcome: "sent", status: response.status });
+    } catch (err) {
+      if (!(err instanceof SwarmApiError)) throw err;
+      if (err.transient) {
+        writeEntry(profile, { ...entry, attempts: entry.attempts + 1, last_error: err.message });
+        summary.remaining++;
+        summary.results.push({ ...base, outcome: "kept", error: err.message, error_kind: err.kind });
+        // the API is unreachable; don't spend the retry budget on every entry
+        offline = err.kind === "network" || err.kind === "timeout";
+      } else {
+        recordSubmission(profile, entry.task_id, entry.event, err);
+        unlinkSync(entryFile(profile, entry.event.id));
+        summary.dropped++;
+        summary.results.push({ ...base, outcome: "dropped", error: err.message, error_kind: err.kind });
+      }
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,273 @@
+import { createHash } from "node:crypto";
+
+/**
+ * Version of the built-in processors. Bump it with any change to their
+ * output; cached results are keyed by it.
+ */
+export const PROCESSOR_VERSION = "1";
+
+// ─── Crypto Helpers ──────────────────────────────────────
+
+export function sha256hex(data: string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// ─── Seeded PRNG (xorshift128+) — canonical impl ────────
+
+export function xorshift128plus(seed: string): () => number {
+  let s0 = 0;
+  let s1 = 0;
+  for (let i = 0; i < seed.length; i++) {
+    s0 = (s0 * 31 + seed.charCodeAt(i)) >>> 0;
+    s1 = (s1 * 37 + seed.charCodeAt(i)) >>> 0;
+  }
+  if (s0 === 0) s0 = 1;
+  if (s1 === 0) s1 = 1;
+  return function () {
+    let x = s0;
+    const y = s1;
+    s0 = y;
+    x ^= x << 23;
+    x ^= x >>> 17;
+    x ^= y;
+    x ^= y >>> 26;
+    s1 = x;
+    return (s0 + s1) >>> 0;
+  };
+}
+
+export function generateData(seed: string, size: number): Float64Array {
+  const rng = xorshift128plus(seed);
+  const data = new Float64Array(size);
+  for (let i = 0; i < size; i++) data[i] = (rng() / 4294967296) * 2 - 1;
+  return data;
+}
+
+// ─── FFT (radix-2 Cooley-Tukey) — canonical impl ────────
+
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const ang = (-2 * Math.PI) / len;
+    const wRe = Math.cos(ang);
+    const wIm = Math.sin(ang);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let j = 0; j < len / 2; j++) {
+        const uRe = re[i + j];
+        const uIm = im[i + j];
+        const vRe =
+          re[i + j + len / 2] * curRe - im[i + j + len / 2] * curIm;
+        const vIm =
+          re[i + j + len / 2] * curIm + im[i + j + len / 2] * curRe;
+        re[i + j] = uRe + vRe;
+        im[i + j] = uIm + vIm;
+        re[i + j + len / 2] = uRe - vRe;
+        im[i + j + len / 2] = uIm - vIm;
+        const tmpRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = tmpRe;
+      }
+    }
+  }
+}
+
+// ─── Task Processors ─────────────────────────────────────
+
+/** Reports loop progress from long-running processors; never affects output. */
+export type ProgressFn = (done: number, total: number) => void;
+
+/**
+ * Magnitude spectrum of the seeded signal, zero-padded to a power of two.
+ * fft, simulation and signal_classify are all derived from it.
+ */
+export function spectrum(seed: string, shardSize: number): Float64Array {
+  let n = 1;
+  while (n < shardSize) n <<= 1;
+  const data = generateData(seed, n);
+  const re = new Float64Array(data);
+  const im = new Float64Array(n);
+  fft(re, im);
+  const mags = new Float64Array(n);
+  for (let i = 0; i < n; i++)
+    mags[i] = Math.sqrt(re[i] * re[i] + im[i] * im[i]);
+  return mags;
+}
+
+function fftResult(mags: Float64Array): { output_hash: string } {
+  const magStr = Array.from(mags)
+    .map((v) => v.toFixed(6))
+    .join(",");
+  return { output_hash: sha256hex(magStr) };
+}
+
+export function processFFT(
+  seed: string,
+  shardSize: number,
+): { output_hash: string } {
+  return fftResult(spectrum(seed, shardSize));
+}
+
+export function processShaChain(
+  seed: string,
+  shardSize: number,
+  onProgress?: ProgressFn,
+): { output_hash: string } {
+  const rounds = Math.min(shardSize, 10000);
+  let h = seed;
+  for (let i = 0; i < rounds; i++) {
+    h = sha256hex(h);
+    if (onProgress && i % 1000 === 999) onProgress(i + 1, rounds);
+  }
+  return { output_hash: h };
+}
+
+export function processMonteCarlo(
+  seed: string,
+  shardSize: number,
+): { output_hash: string } {
+  const rng = xorshift128plus(seed);
+  let inside = 0;
+  for (let i = 0; i < shardSize; i++) {
+    const x = rng() / 4294967296;
+    const y = rng() / 4294967296;
+    if (x * x + y * y < 1.0) inside++;
+  }
+  const result = ((4.0 * inside) / shardSize).toFixed(10);
+  return { output_hash: sha256hex(result) };
+}
+
+function simulationResult(mags: Float64Array): { output_hash: string; output_value: string } {
+  const n = mags.length;
+  let sum = 0;
+  for (let i = 0; i < n; i++) sum += mags[i];
+  const mean = sum / n;
+  let variance = 0;
+  for (let i = 0; i < n; i++) variance += (mags[i] - mean) * (mags[i] - mean);
+  const stddev = Math.sqrt(variance / n);
+  const valueStr = stddev.toFixed(10);
+  return { output_hash: sha256hex(valueStr), output_value: valueStr };
+}
+
+export function processSimulation(
+  seed: string,
+  shardSize: number,
+): { output_hash: string; output_value: string } {
+  return simulationResult(spectrum(seed, shardSize));
+}
+
+export function processHashSearch(
+  seed: string,
+  shardSize: number,
+  onProgress?: ProgressFn,
+): { output_hash: string; output_value: string } {
+  const targetHash = sha256hex(seed);
+  const prefixLen = Math.min(
+    Math.max(2, Math.floor(Math.log2(shardSize + 1) / 4)),
+    5,
+  );
+  const prefix = targetHash.substring(0, prefixLen);
+  for (let nonce = 0; nonce <= 500000; nonce++) {
+    if (onProgress && nonce % 10000 === 9999) onProgress(nonce + 1, 500001);
+    const h = sha256hex(seed + ":" + nonce);
+    if (h.startsWith(prefix)) {
+      return { output_hash: sha256hex(h), output_value: h };
+    }
+  }
+  return { output_hash: sha256hex("NOTFOUND"), output_value: "NOTFOUND" };
+}
+
+export function verifyCandidate(
+  seed: string,
+  shardSize: number,
+  candidate: string,
+): { output_hash: string; output_value: string } {
+  const targetHash = sha256hex(seed);
+  const prefixLen = Math.min(
+    Math.max(2, Math.floor(Math.log2(shardSize + 1) / 4)),
+    5,
+  );
+  const prefix = targetHash.substring(0, prefixLen);
+  if (candidate && candidate.startsWith(prefix)) {
+    return { output_hash: sha256hex(candidate), output_value: "valid" };
+  }
+  return {
+    output_hash: sha256hex("INVALID:" + candidate),
+    output_value: "invalid",
+  };
+}
+
+function signalClassifyResult(mags: Float64Array): { output_hash: string; output_value: string } {
+  const n = mags.length;
+  let maxMag = 0;
+  let sumMag = 0;
+  for (let i = 1; i < n / 2; i++) {
+    sumMag += mags[i];
+    if (mags[i] > maxMag) maxMag = mags[i];
+  }
+  const avgMag = sumMag / (n / 2 - 1);
+  const par = maxMag / avgMag;
+  let classification: string;
+  if (par > 10) classification = "PERIODIC";
+  else if (par > 5) classification = "QUASI_PERIODIC";
+  else if (par > 2) classification = "STRUCTURED_NOISE";
+  else classification = "WHITE_NOISE";
+  return { output_hash: sha256hex(classification), output_value: classification };
+}
+
+export function processSignalClassify(
+  seed: string,
+  shardSize: number,
+): { output_hash: string; output_value: string } {
+  return signalClassifyResult(spectrum(seed, shardSize));
+}
+
+export const SPECTRAL_KINDS = ["fft", "simulation", "signal_classify"] as const;
+
+export type SpectralKind = (typeof SPECTRAL_KINDS)[number];
+
+/** Every spectrum-derived result from a single FFT pass. */
+export function processSpectrum(
+  seed: string,
+  shardSize: number,
+): Record<SpectralKind, { output_hash: string; output_value?: string }> {
+  const mags = spectrum(seed, shardSize);
+  return {
+    fft: fftResult(mags),
+    simulation: simulationResult(mags),
+    signal_classify: signalClassifyResult(mags),
+  };
+}
+
+// ─── Task Types ──────────────────────────────────────────
+
+export interface TaskData {
+  task_id: string;
+  task_type: string;
+  seed: string;
+  shard_size: number;
+  consensus_mode: string;
+  phase: string;
+  description?: string;
+  candidate?: string;
+  responses?: Array<{ output_hash: string; output_value?: string; index?: number }>;
+  n_responses?: number;
+  [key: string]: unknown;
+}
+
+export interface TaskResult {
+  output_hash: string;
+  output_value?: string;
+  /** Short human-readable reasoning, shown to the agent but never submitted. */
+  explanation?: string;
+}
@@ -0,0 +1,354 @@
+import {
+  getLeaderboard,
+  getProposal,
+  propose,
+  SwarmApiError,
+  type ProposalStatus,
+  type ProposeResponse,
+} from "./api.js";
+import { getSecretKey, type Identity } from "./identity.js";
+import { appendLedger, readLedger } from "./ledger.js";
+import { signEvent } from "./nostr.js";
+import { relayHub, type RelayPublishResult } from "./relay.js";
+import {
+  listSpends,
+  loadSpendPolicy,
+  serializeSpend,
+  spendBudget,
+  spendRefusals,
+  SpendRefusedError,
+  type SpendBudget,
+} from "./spend-policy.js";
+import { taskTypeDoc } from "./task-docs.js";
+
+// ─── Task Proposals ──────────────────────────────────────
+//
+// Proposals are checked against the published rules before anything is
+// signed, so a malformed proposal never costs a round trip. Every proposal
+// sent is recorded in the ledger, which is what swarm_my_proposals tracks.
+
+export const PROPOSABLE_TASK_TYPES = [
+  "open_question",
+  "exam",
+  "analysis",
+  "signal_classify",
+  "simulation",
+  "fft",
+  "spectral",
+  "monte_carlo",
+  "sha_chain",
+] as const;
+
+export type ProposableTaskType = (typeof PROPOSABLE_TASK_TYPES)[number];
+
+const SUBJECTIVE_TYPES = new Set<ProposableTaskType>(["open_question", "exam", "analysis"]);
+
+export const QUESTION_MIN_CHARS = 20;
+export const QUESTION_MAX_CHARS = 500;
+export const MAX_SHARD_SIZE = 8192;
+
+const RULES = {
+  deterministic: { cost: 5, min_reputation: 50 },
+  subjective: { cost: 10, min_reputation: 100 },
+};
+
+export interface ProposalDraft {
+  task_type: ProposableTaskType;
+  question?: string;
+  shard_size?: number;
+}
+
+export interface Balance {
+  credits?: number;
+  reputation?: number;
+  source: "leaderboard" | "ledger" | "unknown";
+  as_of?: string;
+}
+
+export interface ProposalPreview {
+  task_type: ProposableTaskType;
+  consensus_mode: string;
+  subjective: boolean;
+  cost: number;
+  min_reputation: number;
+  credits: number | null;
+  reputation: number | null;
+  credits_after: number | null;
+  balance_source: Balance["source"];
+  /** null when the balance is unknown. */
+  eligible: boolean | null;
+  blockers: string[];
+}
+
+export interface TrackedProposal {
+  proposal_id?: string;
+  task_type: string;
+  question?: string;
+  shard_size?: number;
+  cost?: number;
+  event_id: string;
+  proposed_at: string;
+}
+
+export class InvalidProposalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidProposalError";
+  }
+}
+
+export function isSubjective(taskType: ProposableTaskType): boolean {
+  return SUBJECTIVE_TYPES.has(taskType);
+}
+
+/** Published credit cost of proposing a task type. */
+export function proposalCost(taskType: string): number {
+  return SUBJECTIVE_TYPES.has(taskType as ProposableTaskType)
+    ? RULES.subjective.cost
+    : RULES.deterministic.cost;
+}
+
+/** Checks a proposal against the published rules and returns it trimmed. */
+export function validateProposal(draft: {
+  task_type: string;
+  question?: string;
+  shard_size?: number;
+}): ProposalDraft {
+  const taskType = PROPOSABLE_TASK_TYPES.find((t) => t === draft.task_type);
+  if (!taskType) {
+    throw new InvalidProposalError(
+      `Unsupported task_type "${draft.task_type}"; expected one of ${PROPOSABLE_TASK_TYPES.join(", ")}`,
+    );
+  }
+  const question = draft.question?.trim();
+  if (isSubjective(taskType)) {
+    if (!question || question.length < QUESTION_MIN_CHARS || question.length > QUESTION_MAX_CHARS) {
+      throw new InvalidProposalError(
+        `${taskType} needs a question of ${QUESTION_MIN_CHARS}-${QUESTION_MAX_CHARS} characters, got ${question?.length ?? 0}`,
+      );
+    }
+    if (draft.shard_size !== undefined) {
+      throw new InvalidProposalError(`shard_size does not apply to ${taskType}`);
+    }
+    return { task_type: taskType, question };
+  }
+
+  if (question) throw new InvalidProposalError(`question does not apply to ${taskType}`);
+  const shardSize = draft.shard_size;
+  if (
+    shardSize !== undefined &&
+    !(Number.isInteger(shardSize) && shardSize >= 1 && shardSize <= MAX_SHARD_SIZE)
+  ) {
+    throw new InvalidProposalError(
+      `shard_size must be an integer between 1 and ${MAX_SHARD_SIZE}, got ${shardSize}`,
+    );
+  }
+  return { task_type: taskType, ...(shardSize !== undefined ? { shard_size: shardSize } : {}) };
+}
+
+// ─── Balance & Preview ───────────────────────────────────
+
+/** The newest credits and reputation reported by the API in this profile's ledger. */
+export function ledgerBalance(profile: string): Balance {
+  const balance: Balance = { source: "unknown" };
+  const entries = readLedger(profile);
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i];
+    const response =
+      entry.kind === "enlist" ||
+      entry.kind === "proposal" ||
+      (entry.kind === "submission" && entry.ok)
+        ? entry.response
+        : undefined;
+    if (!response) continue;
+    if (balance.credits === undefined && typeof response.credits === "number") {
+      balance.credits = response.credits;
+      balance.as_of ??= entry.ts;
+    }
+    if (balance.reputation === undefined && typeof response.reputation === "number") {
+      balance.reputation = response.reputation;
+      balance.as_of ??= entry.ts;
+    }
+    if (balance.credits !== undefined && balance.reputation !== undefined) break;
+  }
+  if (balance.as_of) balance.source = "ledger";
+  return balance;
+}
+
+/** Live balance from the leaderboard, falling back to the ledger. */
+export async function currentBalance(identity: Identity): Promise<Balance> {
+  try {
+    const { leaderboard } = await getLeaderboard(getSecretKey(identity));
+    const me = leaderboard.find((e) => e.agent_id === identity.agentId);
+    if (me && (me.credits !== undefined || me.reputation !== undefined)) {
+      return {
+        credits: me.credits,
+        reputation: me.reputation,
+        source: "leaderboard",
+        as_of: new Date().toISOString(),
+      };
+    }
+  } catch (err) {
+    if (!(err instanceof SwarmApiError)) throw err;
+  }
+  return ledgerBalance(identity.profile);
+}
+
+export function previewProposal(draft: ProposalDraft, balance: Balance): ProposalPreview {
+  const subjective = isSubjective(draft.task_type);
+  const { min_reputation } = subjective ? RULES.subjective : RULES.deterministic;
+  const cost = proposalCost(draft.task_type);
+  const credits = balance.credits ?? null;
+  const reputation = balance.reputation ?? null;
+
+  const blockers: string[] = [];
+  if (credits !== null && credits < cost) {
+    blockers.push(`insufficient credits: need ${cost}, have ${credits}`);
+  }
+  if (reputation !== null && reputation < min_reputation) {
+    blockers.push(`reputation ${reputation} below required ${min_reputation}`);
+  }
+  return {
+    task_type: draft.task_type,
+    consensus_mode: taskTypeDoc(draft.task_type)?.consensus_mode ?? "unknown",
+    subjective,
+    cost,
+    min_reputation,
+    credits,
+    reputation,
+    credits_after: credits !== null ? credits - cost : null,
+    balance_source: balance.source,
+    eligible: blockers.length > 0 ? false : credits === null || reputation === null ? null : true,
+    blockers,
+  };
+}
+
+/** What the spend policy leaves, counting every profile's proposals from the ledger. */
+export function proposalBudget(balance: Balance): SpendBudget {
+  return spendBudget(loadSpendPolicy(), listSpends(proposalCost), balance);
+}
+
+/** Reasons the spend policy refuses this proposal; empty when it may be sent. */
+export function proposalRefusals(
+  budget: SpendBudget,
+  draft: ProposalDraft,
+  confirmed = false,
+): string[] {
+  return spendRefusals(budget, {
+    action: "propose",
+    task_type: draft.task_type,
+    amount: proposalCost(draft.task_type),
+    confirmed,
+  });
+}
+
+// ─── Submission & Tracking ───────────────────────────────
+
+/**
+ * Signs and sends a proposal once the spend policy allows it, checked
+ * against the live balance; throws SpendRefusedError otherwise. A balance
+ * the caller already read is reused unless this profile spent since. The
+ * spend is in the ledger before the event leaves, so an unknown outcome
+ * still counts against the caps.
+ */
+export function submitProposal(
+  identity: Identity,
+  draft: ProposalDraft,
+  options: { confirmed?: boolean; balance?: Balance } = {},
+): Promise<ProposeResponse & { relays?: RelayPublishResult[] }> {
+  return serializeSpend(async () => {
+    const spends = listSpends(proposalCost);
+    const known = options.balance;
+    const fresh =
+      known && !spends.some((s) => s.profile === identity.profile && s.ts > (known.as_of ?? ""));
+    const balance = fresh ? known : await currentBalance(identity);
+    const budget = spendBudget(loadSpendPolicy(), spends, balance);
+    const refusals = proposalRefusals(budget, draft, options.confirmed);
+    if (refusals.length > 0) throw new SpendRefusedError(refusals);
+
+    const tags: string[][] = [["task_type", draft.task_type]];
+    if (draft.question) tags.push(["question", draft.question]);
+    if (draft.shard_size) tags.push(["shard_size", String(draft.shard_size)]);
+
+    const sk = getSecretKey(identity);
+    const event = signEvent(sk, tags);
+    appendLedger(identity.profile, {
+      kind: "spend",
+      event_id: event.id,
+      action: "propose",
+      task_type: draft.task_type,
+      amount: proposalCost(draft.task_type),
+    });
+    let data: ProposeResponse;
+    try {
+      data = await propose(event, sk);
+    } catch (err) {
+      // a refusal costs nothing; a timeout or outage may have been charged
+      if (err instanceof SwarmApiError && !err.transient) {
+        appendLedger(identity.profile, {
+          kind: "spend_void",
+          event_id: event.id,
+          reason: err.message,
+        });
+      }
+      throw err;
+    }
+    appendLedger(identity.profile, {
+      kind: "proposal",
+      event_id: event.id,
+      task_type: draft.task_type,
+      ...(draft.question ? { question: draft.question } : {}),
+      ...(draft.shard_size ? { shard_size: draft.shard_size } : {}),
+      response: data,
+    });
+    // relays only hear of a proposal the swarm accepted
+    const relays = await relayHub.publish(event);
+    return relays.length > 0 ? { ...data, relays } : data;
+  });
+}
+
+/** Proposals sent from this profile, newest first. */
+export function listProposals(profile: string): TrackedProposal[] {
+  const proposals: TrackedProposal[] = [];
+  for (const entry of readLedger(profile)) {
+    if (entry.kind !== "proposal") continue;
+    const r = entry.response;
+    proposals.push({
+      ...(typeof r.proposal_id === "string" ? { proposal_id: r.proposal_id } : {}),
+      task_type: entry.task_type,
+      ...(entry.question ? { question: entry.question } : {}),
+      ...(entry.shard_size ? { shard_size: entry.shard_size } : {}),
+      ...(typeof r.cost === "number" ? { cost: r.cost } : {}),
+      event_id: entry.event_id,
+      proposed_at: entry.ts,
+    });
+  }
+  return proposals.reverse();
+}
+
+/** Looks up each proposal's consensus result; failures are reported per proposal. */
+export async function trackProposals(identity: Identity, proposals: TrackedProposal[]) {
+  const sk = getSecretKey(identity);
+  const tracked = await Promise.all(
+    proposals.map(async (p) => {
+      if (!p.proposal_id) return { ...p, status: "unknown" };
+      try {
+        const status: ProposalStatus = await getProposal(p.proposal_id, sk);
+        return { ...p, ...status };
+      } catch (err) {
+        if (!(err instanceof SwarmApiError)) throw err;
+        return { ...p, status: "unknown", error: err.toJSON() };
+      }
+    }),
+  );
+  const num = (v: unknown) => (typeof v === "number" ? v : 0);
+  return {
+    total: tracked.length,
+    credits_spent: tracked.reduce((s, p) => s + num(p.cost), 0),
+    proposer_elo_delta: tracked.reduce(
+      (s, p) => s + num((p as { proposer_elo_delta?: unknown }).proposer_elo_delta),
+      0,
+    ),
+    proposals: tracked,
+  };
+}
@@ -0,0 +1,205 @@
+import { existsSync, readdirSync } from "node:fs";
+import { isAbsolute, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { config, SWARM_HOME } from "./config.js";
+import {
+  processShaChain,
+  processMonteCarlo,
+  processHashSearch,
+  PROCESSOR_VERSION,
+  verifyCandidate,
+  type ProgressFn,
+  type TaskData,
+  type TaskResult,
+} from "./processors.js";
+import { judgeSignalClassify } from "./judge.js";
+import { cachedResult, spectralResult } from "./result-cache.js";
+
+// ─── Processor Registry ──────────────────────────────────
+//
+// Processors are keyed by (consensus_mode, phase, task_type); any part may
+// be "*". The most specific match wins, and on a tie the later registration
+// wins, so plugins can override built-ins. A task with no match is refused
+// rather than computed with a guess.
+
+const ANY = "*";
+
+export interface ProcessorDefinition {
+  consensus_mode?: string;
+  phase?: string;
+  task_type?: string;
+  /** Free-form version string, reported by swarm_processors. */
+  version?: string;
+  process(task: TaskData, onProgress?: ProgressFn): TaskResult;
+}
+
+interface RegisteredProcessor {
+  consensus_mode: string;
+  phase: string;
+  task_type: string;
+  version: string;
+  source: string;
+  process(task: TaskData, onProgress?: ProgressFn): TaskResult;
+}
+
+export class UnsupportedTaskError extends Error {
+  constructor(task: Pick<TaskData, "consensus_mode" | "phase" | "task_type">) {
+    super(
+      `Unsupported task: no processor for consensus_mode=${task.consensus_mode}, phase=${task.phase}, task_type=${task.task_type}`,
+    );
+    this.name = "UnsupportedTaskError";
+  }
+}
+
+const processors: RegisteredProcessor[] = [];
+
+export function registerProcessor(def: ProcessorDefinition, source: string): void {
+  if (typeof def?.process !== "function") {
+    throw new Error(`Processor from ${source} has no process() function`);
+  }
+  processors.push({
+    consensus_mode: def.consensus_mode ?? ANY,
+    phase: def.phase ?? ANY,
+    task_type: def.task_type ?? ANY,
+    version: def.version ?? "unversioned",
+    source,
+    process: def.process,
+  });
+}
+
+function matches(pattern: string, value: string): boolean {
+  return pattern === ANY || pattern === value;
+}
+
+function specificity(p: RegisteredProcessor): number {
+  return [p.consensus_mode, p.phase, p.task_type].filter((k) => k !== ANY).length;
+}
+
+function resolveProcessor(task: TaskData): RegisteredProcessor | undefined {
+  let best: RegisteredProcessor | undefined;
+  for (const p of processors) {
+    if (
+      !matches(p.consensus_mode, task.consensus_mode) ||
+      !matches(p.phase, task.phase) ||
+      !matches(p.task_type, task.task_type)
+    )
+      continue;
+    if (!best || specificity(p) >= specificity(best)) best = p;
+  }
+  return best;
+}
+
+export function isSupported(task: TaskData): boolean {
+  return resolveProcessor(task) !== undefined;
+}
+
+export function processTask(task: TaskData, onProgress?: ProgressFn): TaskResult {
+  const processor = resolveProcessor(task);
+  if (!processor) throw new UnsupportedTaskError(task);
+  return processor.process(task, onProgress);
+}
+
+export function listProcessors() {
+  return processors.map(({ process: _, ...rest }) => rest);
+}
+
+// ─── Built-in Processors ─────────────────────────────────
+
+const builtins: ProcessorDefinition[] = [
+  {
+    consensus_mode: "verify",
+    phase: "search",
+    process: (t, onProgress) =>
+      cachedResult("hash_search", t.seed, t.shard_size, () =>
+        processHashSearch(t.seed, t.shard_size, onProgress),
+      ),
+  },
+  {
+    consensus_mode: "verify",
+    phase: "verify",
+    process: (t) => {
+      if (!t.candidate) throw new Error("verify phase task has no candidate");
+      return verifyCandidate(t.seed, t.shard_size, t.candidate);
+    },
+  },
+  {
+    consensus_mode: "vote",
+    phase: "produce",
+    process: (t) => spectralResult("signal_classify", t.seed, t.shard_size),
+  },
+  {
+    consensus_mode: "vote",
+    phase: "judge",
+    process: (t) => judgeSignalClassify(t.seed, t.shard_size, t.responses ?? []),
+  },
+  {
+    consensus_mode: "numeric_tolerance",
+    process: (t) => spectralResult("simulation", t.seed, t.shard_size),
+  },
+  { task_type: "fft", process: (t) => spectralResult("fft", t.seed, t.shard_size) },
+  { task_type: "spectral", process: (t) => spectralResult("fft", t.seed, t.shard_size) },
+  {
+    task_type: "monte_carlo",
+    process: (t) =>
+      cachedResult("monte_carlo", t.seed, t.shard_size, () =>
+        processMonteCarlo(t.seed, t.shard_size),
+      ),
+  },
+  {
+    task_type: "sha_chain",
+    process: (t, onProgress) =>
+      cachedResult("sha_chain", t.seed, t.shard_size, () =>
+        processShaChain(t.seed, t.shard_size, onProgress),
+      ),
+  },
+];
+
+for (const def of builtins) registerProcessor({ version: PROCESSOR_VERSION, ...def }, "builtin");
+
+// ─── Plugins ─────────────────────────────────────────────
+//
+// A plugin is an ES module exporting `processors` (or a default export)
+// as an array of ProcessorDefinition. Plugins are every .js/.mjs file in
+// <swarm home>/processors/, plus the paths or npm package names listed in
+// GRAVITY_SWARM_PLUGINS (comma-separated) or config.plugins.
+
+export const PLUGIN_DIR = join(SWARM_HOME, "processors");
+
+function pluginSpecifiers(): string[] {
+  const specs: string[] = [];
+  if (existsSync(PLUGIN_DIR)) {
+    for (const file of readdirSync(PLUGIN_DIR).sort()) {
+      if (/\.m?js$/.test(file)) specs.push(join(PLUGIN_DIR, file));
+    }
+  }
+  const listed = process.env.GRAVITY_SWARM_PLUGINS
+    ? process.env.GRAVITY_SWARM_PLUGINS.split(",")
+    : (config.plugins ?? []);
+  for (const spec of listed) if (spec.trim()) specs.push(spec.trim());
+  return specs;
+}
+
+function toImportable(spec: string): string {
+  if (isAbsolute(spec) || spec.startsWith(".")) return pathToFileURL(resolve(spec)).href;
+  return spec;
+}
+
+let loaded: Promise<void> | null = null;
+
+/** Imports all configured plugins once; safe to call from every thread. */
+export function loadPlugins(): Promise<void> {
+  loaded ??= (async () => {
+    for (const spec of pluginSpecifiers()) {
+      const mod = (await import(toImportable(spec))) as {
+        processors?: ProcessorDefinition[];
+        default?: ProcessorDefinition[];
+      };
+      const defs = mod.processors ?? mod.default;
+      if (!Array.isArray(defs)) {
+        throw new Error(`Processor plugin ${spec} must export an array named "processors"`);
+      }
+      for (const def of defs) registerProcessor(def, spec);
+    }
+  })();
+  return loaded;
+}
@@ -0,0 +1,302 @@
+import { AbstractRelay } from "nostr-tools/abstract-relay";
+import type { Filter } from "nostr-tools/filter";
+import * as nip19 from "nostr-tools/nip19";
+import { verifyEvent, type Event } from "nostr-tools/pure";
+import { ANNOUNCERS, RELAYS } from "./config.js";
+import { signEvent, SWARM_EVENT_KIND } from "./nostr.js";
+import {
+  assessText,
+  fenceUntrusted,
+  UNTRUSTED_NOTICE,
+  type TextAssessment,
+} from "./untrusted.js";
+
+// ─── Nostr Relays ────────────────────────────────────────
+//
+// Optional second channel next to the HTTP API. Every signed enlist,
+// submit and propose event is also published to the configured relays,
+// and task announcements (kind 30078 tagged t=gravity-swarm-task) are
+// subscribed to so agents are told about new work instead of polling.
+// Relay failures never fail the API call they accompany.
+
+export const ANNOUNCE_TAG = "gravity-swarm-task";
+
+const CONNECT_TIMEOUT_MS = 5_000;
+const WATCH_RETRY_MS = 30_000;
+const MAX_ANNOUNCEMENTS = 50;
+
+export interface RelayPublishResult {
+  relay: string;
+  ok: boolean;
+  message?: string;
+}
+
+export interface TaskAnnouncement {
+  event_id: string;
+  pubkey: string;
+  relay: string;
+  created_at: number;
+  received_at: string;
+  task_id?: string;
+  task_type?: string;
+  consensus_mode?: string;
+  /** The event content, fenced as untrusted text. */
+  description?: string;
+  untrusted_notice?: string;
+  injection?: TextAssessment;
+}
+
+export interface RelayStatus {
+  relay: string;
+  connected: boolean;
+  subscribed: boolean;
+  error?: string;
+}
+
+export interface RelayHubOptions {
+  /** Trusted announcer pubkeys (hex or npub); empty accepts any valid signature. */
+  announcers?: string[];
+  /** WebSocket class to connect with; defaults to the global one. */
+  websocketImplementation?: typeof WebSocket;
+}
+
+function toHexPubkey(key: string): string {
+  if (!key.startsWith("npub1")) return key.toLowerCase();
+  const decoded = nip19.decode(key);
+  if (decoded.type !== "npub") throw new Error(`Not an npub: ${key}`);
+  return decoded.data;
+}
+
+function tagValue(event: Event, name: string): string | undefined {
+  return event.tags.find((t) => t[0] === name)?.[1];
+}
+
+/**
+ * Makes close() idempotent. The relay client closes the socket from its
+ * error handler, and some WebSocket implementations (undici in Node 20)
+ * fire error again from close() while connecting, recursing without end.
+ */
+function guardClose(Base: typeof WebSocket): typeof WebSocket {
+  return class extends Base {
+    #closing = false;
+    close(code?: number, reason?: string): void {
+      if (this.#closing) return;
+      this.#closing = true;
+      super.close(code, reason);
+    }
+  };
+}
+
+function describeError(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** Signs a task announcement; used by coordinators and the mock swarm. */
+export function signAnnouncement(
+  sk: Uint8Array,
+  task: { task_id?: string; task_type: string; consensus_mode?: string; description?: string },
+) {
+  const tags = [
+    ["t", ANNOUNCE_TAG],
+    ["task_type", task.task_type],
+  ];
+  if (task.task_id) tags.push(["task_id", task.task_id]);
+  if (task.consensus_mode) tags.push(["consensus_mode", task.consensus_mode]);
+  return signEvent(sk, tags, task.description ?? "");
+}
+
+export class RelayHub {
+  /** Incoming events dropped for a bad signature, wrong kind or untrusted author. */
+  rejected = 0;
+
+  private readonly connections = new Map<string, AbstractRelay>();
+  private readonly errors = new Map<string, string>();
+  private readonly subscribed = new Set<string>();
+  private readonly seen = new Set<string>();
+  private readonly announcements: TaskAnnouncement[] = [];
+  private readonly listeners = new Set<(a: TaskAnnouncement) => void>();
+  private readonly announcers: Set<string>;
+  private socketClass: typeof WebSocket | null = null;
+  private watching = false;
+
+  constructor(
+    readonly urls: string[],
+    private readonly options: RelayHubOptions = {},
+  ) {
+    this.announcers = new Set((options.announcers ?? []).map(toHexPubkey));
+  }
+
+  get enabled(): boolean {
+    return this.urls.length > 0;
+  }
+
+  /** Throws when relays are configured but there is no WebSocket to reach them with. */
+  checkSupport(): void {
+    if (this.enabled) this.websocket();
+  }
+
+  private websocket(): typeof WebSocket {
+    if (!this.socketClass) {
+      // Node.js 20 has no global WebSocket unless started with --experimental-websocket
+      const impl = this.options.websocketImplementation ?? globalThis.WebSocket;
+      if (!impl) {
+        throw new Error(
+          `Relays are configured (${this.urls.join(", ")}) but Node.js ${process.versions.node} has no global WebSocket; use Node.js 22+, run node with --experimental-websocket, or unset GRAVITY_SWARM_RELAYS`,
+        );
+      }
+      this.socketClass = guardClose(impl);
+    }
+    return this.socketClass;
+  }
+
+  private connection(url: string): AbstractRelay {
+    let relay = this.connections.get(url);
+    if (!relay) {
+      relay = new AbstractRelay(url, {
+        verifyEvent,
+        websocketImplementation: this.websocket(),
+        enableReconnect: true,
+      });
+      // the default handler logs to stdout, which is the stdio MCP channel
+      relay.onnotice = (msg) => this.errors.set(url, `NOTICE: ${msg}`);
+      this.connections.set(url, relay);
+    }
+    return relay;
+  }
+
+  /** Publishes to every relay in parallel; never rejects. */
+  async publish(event: Event): Promise<RelayPublishResult[]> {
+    return Promise.all(
+      this.urls.map(async (url): Promise<RelayPublishResult> => {
+        try {
+          const relay = this.connection(url);
+          await relay.connect({ timeout: CONNECT_TIMEOUT_MS });
+          const message = await relay.publish(event);
+          return { relay: url, ok: true, ...(message ? { message } : {}) };
+        } catch (err) {
+          this.errors.set(url, describeError(err));
+          return { relay: url, ok: false, message: describeError(err) };
+        }
+      }),
+    );
+  }
+
+  /** Subscribes to task announcements on every relay; idempotent. */
+  watch(): void {
+    if (this.watching || !this.enabled) return;
+    this.watching = true;
+    const filter: Filter = {
+      kinds: [SWARM_EVENT_KIND],
+      "#t": [ANNOUNCE_TAG],
+      since: Math.floor(Date.now() / 1000),
+    };
+    if (this.announcers.size > 0) filter.authors = [...this.announcers];
+
+    for (const url of this.urls) void this.subscribe(url, filter);
+  }
+
+  private async subscribe(url: string, filter: Filter): Promise<void> {
+    try {
+      const relay = this.connection(url);
+      await relay.connect({ timeout: CONNECT_TIMEOUT_MS });
+      relay.subscribe([filter], {
+        onevent: (event) => this.receive(url, event),
+        oninvalidevent: () => {
+          this.rejected++;
+        },
+        onclose: () => this.subscribed.delete(url),
+      });
+      this.subscribed.add(url);
+      this.errors.delete(url);
+    } catch (err) {
+      // the client only reconnects after a successful first connection
+      this.errors.set(url, describeError(err));
+      setTimeout(() => {
+        if (this.watching) void this.subscribe(url, filter);
+      }, WATCH_RETRY_MS).unref();
+    }
+  }
+
+  private receive(url: string, event: Event): void {
+    // the relay client verifies too; checking here keeps the guarantee local
+    if (
+      !verifyEvent(event) ||
+      event.kind !== SWARM_EVENT_KIND ||
+      tagValue(event, "t") !== ANNOUNCE_TAG ||
+      (this.announcers.size > 0 && !this.announcers.has(event.pubkey))
+    ) {
+      this.rejected++;
+      return;
+    }
+    if (this.seen.has(event.id)) return;
+    this.seen.add(event.id);
+
+    const announcement: TaskAnnouncement = {
+      event_id: event.id,
+      pubkey: event.pubkey,
+      relay: url,
+      created_at: event.created_at,
+      received_at: new Date().toISOString(),
+      task_id: tagValue(event, "task_id"),
+      task_type: tagValue(event, "task_type"),
+      consensus_mode: tagValue(event, "consensus_mode"),
+      ...(event.content
+        ? {
+            description: fenceUntrusted("description", event.content),
+            untrusted_notice: UNTRUSTED_NOTICE,
+            injection: assessText("description", event.content),
+          }
+        : {}),
+    };
+    this.announcements.push(announcement);
+    if (this.announcements.length > MAX_ANNOUNCEMENTS) this.announcements.shift();
+    for (const listener of this.listeners) listener(announcement);
+  }
+
+  onAnnouncement(listener: (a: TaskAnnouncement) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Announcements received after `since` (ISO timestamp), oldest first. */
+  recent(since?: string): TaskAnnouncement[] {
+    return since
+      ? this.announcements.filter((a) => a.received_at > since)
+      : [...this.announcements];
+  }
+
+  /** Resolves with the next announcement, or null after `timeoutMs` or on abort. */
+  next(timeoutMs: number, signal?: AbortSignal): Promise<TaskAnnouncement | null> {
+    return new Promise((resolve) => {
+      if (signal?.aborted) return resolve(null);
+      const done = (a: TaskAnnouncement | null) => {
+        clearTimeout(timer);
+        unsubscribe();
+        signal?.removeEventListener("abort", onAbort);
+        resolve(a);
+      };
+      const onAbort = () => done(null);
+      const timer = setTimeout(() => done(null), timeoutMs);
+      const unsubscribe = this.onAnnouncement(done);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  status(): RelayStatus[] {
+    return this.urls.map((url) => ({
+      relay: url,
+      connected: this.connections.get(url)?.connected ?? false,
+      subscribed: this.subscribed.has(url),
+      ...(this.errors.has(url) ? { error: this.errors.get(url) } : {}),
+    }));
+  }
+
+  close(): void {
+    for (const relay of this.connections.values()) relay.close();
+    this.connections.clear();
+    this.subscribed.clear();
+    this.watching = false;
+  }
+}
+
+export const relayHub = new RelayHub(RELAYS, { announcers: ANNOUNCERS });
@@ -0,0 +1,177 @@
+import {
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  utimesSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { threadId } from "node:worker_threads";
+import { RESULT_CACHE_SIZE, SWARM_HOME } from "./config.js";
+import {
+  processFFT,
+  processSignalClassify,
+  processSimulation,
+  processSpectrum,
+  PROCESSOR_VERSION,
+  sha256hex,
+  SPECTRAL_KINDS,
+  type SpectralKind,
+  type TaskResult,
+} from "./processors.js";
+
+// ─── Result Cache ────────────────────────────────────────
+//
+// A deterministic result depends only on the processor version, the
+// computation, the seed and the shard size, so it is computed once and kept
+// in an in-memory LRU and in <swarm home>/cache/results/, which every
+// compute thread and profile shares. A miss on any spectrum-derived result
+// fills all three from one FFT pass. The self-test and the benchmark run
+// without the cache, since they exist to exercise the computation itself.
+
+export const RESULT_CACHE_DIR = join(SWARM_HOME, "cache", "results");
+
+/** Disk entries are trimmed back to the cache size after this many writes. */
+const PRUNE_EVERY = 50;
+
+/** The computation behind a result; spectral tasks share fft's. */
+export type ResultKind = SpectralKind | "monte_carlo" | "sha_chain" | "hash_search";
+
+interface CacheEntry {
+  key: string;
+  result: TaskResult;
+  cached_at: string;
+}
+
+const SPECTRAL_PROCESSORS: Record<SpectralKind, (seed: string, shardSize: number) => TaskResult> = {
+  fft: processFFT,
+  simulation: processSimulation,
+  signal_classify: processSignalClassify,
+};
+
+const memory = new Map<string, TaskResult>();
+let writes = 0;
+let bypass = 0;
+
+function cacheKey(kind: ResultKind, seed: string, shardSize: number): string {
+  return JSON.stringify([PROCESSOR_VERSION, kind, seed, shardSize]);
+}
+
+function entryFile(key: string): string {
+  return join(RESULT_CACHE_DIR, `${sha256hex(key)}.json`);
+}
+
+function remember(key: string, result: TaskResult): void {
+  memory.delete(key);
+  memory.set(key, result);
+  while (memory.size > RESULT_CACHE_SIZE) memory.delete(memory.keys().next().value!);
+}
+
+function lookup(key: string): TaskResult | undefined {
+  const hit = memory.get(key);
+  if (hit) {
+    remember(key, hit);
+    return hit;
+  }
+  const file = entryFile(key);
+  try {
+    const entry = JSON.parse(readFileSync(file, "utf-8")) as CacheEntry;
+    if (entry.key !== key) return undefined;
+    const now = new Date();
+    utimesSync(file, now, now);
+    remember(key, entry.result);
+    return entry.result;
+  } catch {
+    return undefined; // missing or unreadable; recompute
+  }
+}
+
+function prune(): void {
+  const files = readdirSync(RESULT_CACHE_DIR).filter((f) => f.endsWith(".json"));
+  if (files.length <= RESULT_CACHE_SIZE) return;
+  const byAge = files
+    .map((f) => {
+      try {
+        return { f, mtime: statSync(join(RESULT_CACHE_DIR, f)).mtimeMs };
+      } catch {
+        return { f, mtime: 0 };
+      }
+    })
+    .sort((a, b) => a.mtime - b.mtime);
+  for (const { f } of byAge.slice(0, files.length - RESULT_CACHE_SIZE)) {
+    try {
+      unlinkSync(join(RESULT_CACHE_DIR, f));
+    } catch {
+      // another thread pruned it first
+    }
+  }
+}
+
+function store(key: string, result: TaskResult): void {
+  remember(key, result);
+  try {
+    mkdirSync(RESULT_CACHE_DIR, { recursive: true, mode: 0o700 });
+    const file = entryFile(key);
+    const tmp = `${file}.${process.pid}-${threadId}.tmp`;
+    const entry: CacheEntry = { key, result, cached_at: new Date().toISOString() };
+    writeFileSync(tmp, JSON.stringify(entry), { mode: 0o600 });
+    renameSync(tmp, file);
+    if (++writes % PRUNE_EVERY === 0) prune();
+  } catch {
+    // an unwritable cache only costs recomputation
+  }
+}
+
+function enabled(): boolean {
+  return RESULT_CACHE_SIZE > 0 && bypass === 0;
+}
+
+/** A deterministic result, computed only when it is not cached. */
+export function cachedResult(
+  kind: ResultKind,
+  seed: string,
+  shardSize: number,
+  compute: () => TaskResult,
+): TaskResult {
+  if (!enabled()) return compute();
+  const key = cacheKey(kind, seed, shardSize);
+  const hit = lookup(key);
+  if (hit) return { ...hit };
+  const result = compute();
+  store(key, result);
+  return { ...result };
+}
+
+/** A spectrum-derived result; a miss caches all of them from one FFT pass. */
+export function spectralResult(kind: SpectralKind, seed: string, shardSize: number): TaskResult {
+  if (!enabled()) return SPECTRAL_PROCESSORS[kind](seed, shardSize);
+  const hit = lookup(cacheKey(kind, seed, shardSize));
+  if (hit) return { ...hit };
+  const results = processSpectrum(seed, shardSize);
+  for (const k of SPECTRAL_KINDS) store(cacheKey(k, seed, shardSize), results[k]);
+  return { ...results[kind] };
+}
+
+/** Runs `fn` with every lookup a miss and nothing stored. */
+export function withoutResultCache<T>(fn: () => T): T {
+  bypass++;
+  try {
+    return fn();
+  } finally {
+    bypass--;
+  }
+}
+
+/** Where the cache lives, its size limit and how many results are on disk. */
+export function resultCacheInfo(): { dir: string; max_entries: number; disk_entries: number } {
+  let diskEntries = 0;
+  try {
+    diskEntries = readdirSync(RESULT_CACHE_DIR).filter((f) => f.endsWith(".json")).length;
+  } catch {
+    // not created yet
+  }
+  return { dir: RESULT_CACHE_DIR, max_entries: RESULT_CACHE_SIZE, disk_entries: diskEntries };
+}
@@ -0,0 +1,120 @@
+import { listProfiles } from "./identity.js";
+import { readLedger } from "./ledger.js";
+import { sha256hex, type TaskData } from "./processors.js";
+
+// ─── Structured Reviews ──────────────────────────────────
+//
+// A review is one integer rating (1-5) per response, in order, plus
+// optional rationales. It is submitted as canonical JSON: fixed key order,
+// no whitespace, rationales omitted when none are given, so the same
+// review always hashes the same.
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+export interface ReviewItem {
+  rating: number;
+  rationale?: string;
+}
+
+export class InvalidReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidReviewError";
+  }
+}
+
+export function isReviewTask(task: TaskData): boolean {
+  return task.consensus_mode === "review" && task.phase === "review";
+}
+
+export function expectedRatings(task: TaskData): number {
+  return task.n_responses ?? task.responses?.length ?? 0;
+}
+
+/**
+ * Maps response index to the local profile that produced it. Answers are
+ * matched by hash against every profile's ledger, since rating a sibling
+ * profile's answer is self-review too.
+ */
+export function ownResponses(task: TaskData): Map<number, string> {
+  const hashes = new Map<string, string>();
+  for (const profile of listProfiles()) {
+    const answered = new Set<string>();
+    for (const entry of readLedger(profile)) {
+      if (entry.kind === "task" && entry.task.consensus_mode === "review") {
+        if (entry.task.phase === "produce") answered.add(entry.task.task_id);
+      } else if (entry.kind === "result" && answered.has(entry.task_id)) {
+        hashes.set(entry.output_hash, profile);
+      }
+    }
+  }
+  const own = new Map<number, string>();
+  (task.responses ?? []).forEach((r, i) => {
+    const profile =
+      hashes.get(r.output_hash) ??
+      (r.output_value !== undefined ? hashes.get(sha256hex(r.output_value)) : undefined);
+    if (profile) own.set(i, profile);
+  });
+  return own;
+}
+
+export function canonicalReview(items: ReviewItem[]): string {
+  const ratings = items.map((i) => i.rating);
+  const rationales = items.map((i) => i.rationale?.trim() ?? "");
+  return JSON.stringify(
+    rationales.some((r) => r.length > 0) ? { ratings, rationales } : { ratings },
+  );
+}
+
+/** Checks a review against the task and returns its canonical form and hash. */
+export function buildReview(
+  task: TaskData,
+  items: ReviewItem[],
+): { output_hash: string; output_value: string } {
+  if (!isReviewTask(task)) {
+    throw new InvalidReviewError(
+      `Task ${task.task_id} is ${task.consensus_mode}/${task.phase}, not a review-phase task`,
+    );
+  }
+  const expected = expectedRatings(task);
+  if (items.length !== expected) {
+    throw new InvalidReviewError(
+      `Expected ${expected} ratings (one per response, in order), got ${items.length}`,
+    );
+  }
+  items.forEach((item, i) => {
+    if (!Number.isInteger(item.rating) || item.rating < MIN_RATING || item.rating > MAX_RATING) {
+      throw new InvalidReviewError(
+        `Rating for response ${i} must be an integer ${MIN_RATING}-${MAX_RATING}, got ${item.rating}`,
+      );
+    }
+  });
+  const own = ownResponses(task);
+  if (own.size > 0) {
+    const [index, profile] = [...own][0];
+    throw new InvalidReviewError(
+      `Response ${index} is your own answer (profile "${profile}"); do not review this task`,
+    );
+  }
+  const output_value = canonicalReview(items);
+  return { output_hash: sha256hex(output_value), output_value };
+}
+
+/** Parses the legacy `{"ratings":[...]}` answer string into review items. */
+export function parseRatingsAnswer(answer: string): ReviewItem[] {
+  let parsed: { ratings?: unknown; rationales?: unknown };
+  try {
+    parsed = JSON.parse(answer);
+  } catch {
+    throw new InvalidReviewError('Ratings must be JSON like {"ratings":[4,2,5,3]}');
+  }
+  if (!Array.isArray(parsed?.ratings)) {
+    throw new InvalidReviewError('Ratings must be JSON like {"ratings":[4,2,5,3]}');
+  }
+  const rationales = Array.isArray(parsed.rationales) ? parsed.rationales : [];
+  return parsed.ratings.map((rating, i) => ({
+    rating: rating as number,
+    ...(typeof rationales[i] === "string" ? { rationale: rationales[i] as string } : {}),
+  }));
+}
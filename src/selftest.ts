@@ -0,0 +1,79 @@
+import { xorshift128plus } from "./processors.js";
+import { processTask } from "./registry.js";
+import { withoutResultCache } from "./result-cache.js";
+import {
+  GOLDEN_VECTORS,
+  GOLDEN_VECTORS_VERSION,
+  PRNG_VECTORS,
+} from "./golden-vectors.js";
+
+// ─── Reproducibility Self-Test ───────────────────────────
+
+export interface SelftestCheck {
+  name: string;
+  ok: boolean;
+  ms: number;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+export interface SelftestReport {
+  ok: boolean;
+  vectors_version: number;
+  runtime: { node: string; v8: string; platform: string };
+  passed: number;
+  failed: number;
+  checks: SelftestCheck[];
+}
+
+export function runSelftest(): SelftestReport {
+  const checks: SelftestCheck[] = [];
+
+  for (const vector of PRNG_VECTORS) {
+    const started = performance.now();
+    const rng = xorshift128plus(vector.seed);
+    const actual = vector.outputs.map(() => rng());
+    const ok = actual.every((v, i) => v === vector.outputs[i]);
+    checks.push({
+      name: `xorshift128plus/${vector.seed}`,
+      ok,
+      ms: Math.round(performance.now() - started),
+      ...(ok ? {} : { expected: vector.outputs, actual }),
+    });
+  }
+
+  for (const vector of GOLDEN_VECTORS) {
+    const started = performance.now();
+    let actual: { output_hash: string; output_value?: string } | { error: string };
+    try {
+      // cached results would hide a drifted runtime
+      actual = withoutResultCache(() => processTask(vector.task));
+    } catch (err) {
+      actual = { error: (err as Error).message };
+    }
+    const ok =
+      "output_hash" in actual &&
+      actual.output_hash === vector.expected.output_hash &&
+      actual.output_value === vector.expected.output_value;
+    checks.push({
+      name: vector.name,
+      ok,
+      ms: Math.round(performance.now() - started),
+      ...(ok ? {} : { expected: vector.expected, actual }),
+    });
+  }
+
+  const failed = checks.filter((c) => !c.ok).length;
+  return {
+    ok: failed === 0,
+    vectors_version: GOLDEN_VECTORS_VERSION,
+    runtime: {
+      node: process.versions.node,
+      v8: process.versions.v8,
+      platform: `${process.platform}-${process.arch}`,
+    },
+    passed: checks.length - failed,
+    failed,
+    checks,
+  };
+}
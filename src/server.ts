@@ -0,0 +1,1892 @@
+import { existsSync } from "node:fs";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { getPublicKey } from "nostr-tools/pure";
+import {
+  loadIdentity,
+  loadOrCreateIdentity,
+  saveIdentity,
+  getSecretKey,
+  describeIdentity,
+  exportIdentity,
+  parseSecretKey,
+  importIdentity,
+  rotateIdentity,
+  getActiveProfile,
+  resolveProfile,
+  profileExists,
+  profileSummary,
+  listProfiles,
+  switchProfile,
+  deleteProfile,
+  validateProfileName,
+} from "./identity.js";
+import { signEvent } from "./nostr.js";
+import {
+  enlist,
+  getStats,
+  getLeaderboard,
+  SwarmApiError,
+  type LeaderboardResponse,
+  type StatsResponse,
+} from "./api.js";
+import {
+  type ProgressFn,
+  type TaskData,
+  type TaskResult,
+} from "./processors.js";
+import { computePool } from "./compute-pool.js";
+import { resultCacheInfo } from "./result-cache.js";
+import {
+  BENCHMARK_TASK_TYPES,
+  benchmarkMarkdown,
+  DEFAULT_BENCHMARK_SHARD_SIZES,
+  MAX_BENCHMARK_SHARD_SIZE,
+  runBenchmark,
+} from "./benchmark.js";
+import {
+  isSupported,
+  listProcessors,
+  PLUGIN_DIR,
+  UnsupportedTaskError,
+} from "./registry.js";
+import { fetchWork, submitResult, runWorkBatch } from "./worker.js";
+import {
+  appendLedger,
+  lastFetchedTask,
+  newestFirst,
+  queryHistory,
+  summarizeLedger,
+} from "./ledger.js";
+import { flushOutbox, listOutbox } from "./outbox.js";
+import { relayHub } from "./relay.js";
+import { resolvePolicy } from "./work-policy.js";
+import { listPendingReveals, revealPending } from "./commit-reveal.js";
+import {
+  currentBalance,
+  InvalidProposalError,
+  ledgerBalance,
+  listProposals,
+  MAX_SHARD_SIZE,
+  previewProposal,
+  proposalBudget,
+  proposalRefusals,
+  PROPOSABLE_TASK_TYPES,
+  QUESTION_MAX_CHARS,
+  QUESTION_MIN_CHARS,
+  submitProposal,
+  trackProposals,
+  validateProposal,
+  type ProposalDraft,
+} from "./proposals.js";
+import { SpendRefusedError } from "./spend-policy.js";
+import {
+  leaderboardMarkdown,
+  leaderboardView,
+  loadSnapshot,
+  saveSnapshot,
+  statsMarkdown,
+  statsView,
+  TRACKS,
+} from "./explorer.js";
+import {
+  buildReview,
+  expectedRatings,
+  InvalidReviewError,
+  isReviewTask,
+  MAX_RATING,
+  MIN_RATING,
+  ownResponses,
+  parseRatingsAnswer,
+  type ReviewItem,
+} from "./review.js";
+import { ANSWER_MAX_CHARS, ANSWER_MIN_CHARS, checkAnswer } from "./answers.js";
+import {
+  getTask,
+  leaseWarning,
+  openTask,
+  storeResult,
+  TaskStoreError,
+  type StoredTask,
+} from "./task-store.js";
+import { assessTask, fenceUntrusted, presentTask, UNTRUSTED_NOTICE } from "./untrusted.js";
+import {
+  answerInstructions,
+  reviewInstructions,
+  REVIEW_RUBRIC,
+  TASK_TYPE_DOCS,
+  taskTypeDoc,
+} from "./task-docs.js";
+
+// ─── MCP Server ──────────────────────────────────────────
+
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** Forwards processor progress as MCP progress notifications, if requested. */
+function progressReporter(extra: ToolExtra): ProgressFn | undefined {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return undefined;
+  return (progress, total) => {
+    void extra
+      .sendNotification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total },
+      })
+      .catch(() => {});
+  };
+}
+
+/** The profile's key for signing NIP-98 request headers, once it has an identity. */
+function requestAuth(profile?: string): Uint8Array | undefined {
+  const identity = loadIdentity(profile);
+  return identity ? getSecretKey(identity) : undefined;
+}
+
+/**
+ * Turns SwarmApiError into a structured isError result so agents can branch
+ * on the error kind; any other exception propagates to the SDK as usual.
+ */
+function withApiErrors<A extends unknown[]>(
+  handler: (...args: A) => Promise<CallToolResult>,
+): (...args: A) => Promise<CallToolResult> {
+  return async (...args) => {
+    try {
+      return await handler(...args);
+    } catch (err) {
+      if (!(err instanceof SwarmApiError)) throw err;
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(err, null, 2) }],
+        isError: true,
+      };
+    }
+  };
+}
+
+// ─── Cached Network Views ────────────────────────────────
+//
+// The stats and leaderboard tools always fetch; resources serve the last
+// copy (shared by every session) and refetch once it is a minute old.
+
+const SNAPSHOT_TTL_MS = 60_000;
+
+interface Snapshot<T> {
+  fetched_at: string;
+  data: T;
+}
+
+function snapshotCache<T>(fetcher: () => Promise<T>) {
+  let snapshot: Snapshot<T> | null = null;
+  const record = (data: T): T => {
+    snapshot = { fetched_at: new Date().toISOString(), data };
+    return data;
+  };
+  const get = async (): Promise<Snapshot<T>> => {
+    if (!snapshot || Date.now() - Date.parse(snapshot.fetched_at) > SNAPSHOT_TTL_MS) {
+      record(await fetcher());
+    }
+    return snapshot!;
+  };
+  return { record, get };
+}
+
+const statsCache = snapshotCache(() => getStats(requestAuth()));
+const leaderboardCache = snapshotCache(() => getLeaderboard(requestAuth()));
+
+function jsonResource(uri: URL, data: unknown) {
+  return {
+    contents: [
+      { uri: uri.href, mimeType: "application/json", text: JSON.stringify(data, null, 2) },
+    ],
+  };
+}
+
+/** Records a result in the ledger and keeps it with its task for swarm_submit. */
+function keepResult(
+  profile: string | undefined,
+  taskId: string,
+  result: { output_hash: string; output_value?: string },
+): { lease_warning?: string } {
+  const name = resolveProfile(profile);
+  appendLedger(name, { kind: "result", task_id: taskId, ...result });
+  storeResult(name, taskId, result);
+  const warning = leaseWarning(name, taskId);
+  return warning ? { lease_warning: warning } : {};
+}
+
+/** Validates and canonicalizes a review, records it, and returns it ready to submit. */
+function reviewResult(
+  task: TaskData,
+  items: ReviewItem[],
+  profile: string | undefined,
+): CallToolResult {
+  const result = buildReview(task, items);
+  const lease = keepResult(profile, task.task_id, result);
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          { ...result, task_id: task.task_id, ready_to_submit: true, ...lease },
+          null,
+          2,
+        ),
+      },
+    ],
+  };
+}
+
+/**
+ * The stored task a tool call refers to. Older clients pass the whole task
+ * JSON; only its task_id is read, so edited fields never reach processing.
+ */
+function sessionTask(
+  profile: string | undefined,
+  taskId: string | undefined,
+  taskJson: string | undefined,
+): StoredTask {
+  let id = taskId;
+  if (!id && taskJson) {
+    try {
+      const parsed = JSON.parse(taskJson) as { task_id?: unknown };
+      if (typeof parsed?.task_id === "string") id = parsed.task_id;
+    } catch {
+      // reported below as a missing task_id
+    }
+  }
+  if (!id) throw new TaskStoreError("unknown_task", "Pass the task_id returned by swarm_get_work.");
+  return openTask(resolveProfile(profile), id);
+}
+
+/** Resolves a prompt's task argument (a task_id), falling back to the last fetched task. */
+function promptTask(task: string | undefined): TaskData {
+  const profile = resolveProfile();
+  if (task) {
+    const id = task.trim().startsWith("{") ? (JSON.parse(task) as TaskData).task_id : task.trim();
+    const stored = getTask(profile, id);
+    if (!stored) throw new Error(`Unknown task ${id}. Call swarm_get_work first.`);
+    return stored.task;
+  }
+  const last = lastFetchedTask(profile);
+  if (!last) throw new Error("No task given and none fetched yet. Call swarm_get_work first.");
+  return last;
+}
+
+/** Builds an MCP server with every swarm tool; one per connected session. */
+export function createServer(): McpServer {
+  const server = new McpServer(
+    {
+      name: "gravity-swarm",
+      version: "1.0.0",
+    },
+    { capabilities: { logging: {} } },
+  );
+
+  // push relay task announcements to this session as log notifications
+  const unsubscribe = relayHub.onAnnouncement((announcement) => {
+    void server
+      .sendLoggingMessage({
+        level: "notice",
+        logger: "gravity-swarm/announcements",
+        data: { message: "New task announced; call swarm_get_work", announcement },
+      })
+      .catch(() => {});
+  });
+  server.server.onclose = unsubscribe;
+
+  // ── Tool 1: swarm_enlist ─────────────────────────────────
+
+  server.tool(
+    "swarm_enlist",
+    "Register as a contributor in the Gravity Swarm network. Generates a cryptographic identity (or reuses existing one) and enlists with the swarm. Returns agent_id, credits, reputation, and ELO ratings.",
+    {
+      name: z
+        .string()
+        .min(1)
+        .max(32)
+        .describe("Your agent name (1-32 characters)"),
+      profile: z
+        .string()
+        .optional()
+        .describe("Profile to act as (defaults to the active profile)"),
+    },
+    withApiErrors(async ({ name, profile }) => {
+      const identity = loadOrCreateIdentity(profile);
+      const sk = getSecretKey(identity);
+
+      const event = signEvent(
+        sk,
+        [
+          ["name", name],
+          ["d", "gravity-swarm-enlist"],
+        ],
+        JSON.stringify({ name }),
+      );
+
+      const data = await enlist(event, sk);
+      identity.agentId = data.agent_id;
+      identity.name = name;
+      saveIdentity(identity);
+      appendLedger(identity.profile, { kind: "enlist", response: data });
+      // relays only hear of an enlistment the swarm accepted
+      const relays = await relayHub.publish(event);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(relays.length > 0 ? { ...data, relays } : data, null, 2),
+          },
+        ],
+      };
+    }),
+  );
+
+  // ── Tool 2: swarm_get_work ───────────────────────────────
+
+  server.tool(
+    "swarm_get_work",
+    "Fetch the next available task from the Gravity Swarm queue. Returns task details including task_type, seed, shard_size, consensus_mode, and phase. For review/vote tasks in phase 2, includes responses to evaluate. The task is kept for this session under its task_id with its lease and expiry times; pass only the task_id to swarm_process, swarm_review and swarm_submit. Optional preferences (task types, consensus modes, maximum shard size, skip subjective) narrow the selection on top of the configured work policy; tasks that do not match are handed back and another is fetched.",
+    {
+      task_types: z
+        .array(z.string())
+        .optional()
+        .describe("Only these task types, e.g. [\"fft\", \"sha_chain\"]"),
+      consensus_modes: z
+        .array(z.enum(["exact", "numeric_tolerance", "verify", "vote", "review"]))
+        .optional()
+        .describe("Only these consensus modes"),
+      max_shard_size: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .describe("Skip tasks with a larger shard_size"),
+      skip_subjective: z
+        .boolean()
+        .optional()
+        .describe("Skip tasks that need a written answer or review (open_question, exam, analysis)"),
+      profile: z
+        .string()
+        .optional()
+        .describe("Profile to act as (defaults to the active profile)"),
+    },
+    withApiErrors(
+      async ({ task_types, consensus_modes, max_shard_size, skip_subjective, profile }) => {
+        const identity = loadIdentity(profile);
+        if (!identity?.agentId) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Not enlisted yet. Call swarm_enlist first.",
+              },
+            ],
+          };
+        }
+
+        const { task, skipped } = await fetchWork(
+          identity,
+          resolvePolicy({
+            taskTypes: task_types,
+            consensusModes: consensus_modes,
+            maxShardSize: max_shard_size,
+            skipSubjective: skip_subjective,
+          }),
+        );
+        if (task) {
+          const stored = getTask(identity.profile, task.task_id);
+          const leased = stored
+            ? { lease_expires_at: stored.lease_expires_at, expires_at: stored.expires_at }
+            : {};
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(
+                  { ...presentTask(task), ...leased, ...(skipped.length > 0 ? { skipped } : {}) },
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text:
+                skipped.length > 0
+                  ? `No matching work right now; skipped ${skipped.length} task(s) outside the work policy. Try again later or widen the preferences.\n${JSON.stringify(skipped, null, 2)}`
+                  : "No work available right now. Try again later.",
+            },
+          ],
+        };
+      },
+    ),
+  );
+
+  // ── Tool 3: swarm_process ────────────────────────────────
+
+  server.tool(
+    "swarm_process",
+    "Process a fetched task locally, by task_id. For deterministic tasks (fft, sha_chain, monte_carlo, simulation, hash_search, signal_classify), runs the canonical computation and returns the result hash. For review/vote produce phases of subjective tasks (open_question, exam, analysis), pass your answer text as 'answer'; it is normalized and checked (length, unparseable content, restating the question, near-duplicates of your earlier answers) before hashing. For review phases, pass your ratings JSON as 'answer'.",
+    {
+      task_id: z.string().optional().describe("The task_id from swarm_get_work"),
+      task: z
+        .string()
+        .optional()
+        .describe(
+          "Deprecated: the task JSON from swarm_get_work. Only its task_id is read; the stored task is used.",
+        ),
+      answer: z
+        .string()
+        .optional()
+        .describe(
+          "Your text answer for subjective tasks (open_question/exam/analysis produce phase), or JSON ratings for review phase e.g. '{\"ratings\":[4,2,5,3]}'",
+        ),
+      profile: z
+        .string()
+        .optional()
+        .describe("Profile to act as (defaults to the active profile)"),
+    },
+    async ({ task_id, task: taskStr, answer, profile }, extra) => {
+      let taskData: TaskData;
+      try {
+        taskData = sessionTask(profile, task_id, taskStr).task;
+      } catch (err) {
+        if (!(err instanceof TaskStoreError)) throw err;
+        return {
+          content: [{ type: "text" as const, text: err.message }],
+          isError: true,
+        };
+      }
+
+      // Subjective tasks: agent provides answer
+      if (
+        taskData.consensus_mode === "review" &&
+        taskData.phase === "produce"
+      ) {
+        if (!answer) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `${answerInstructions(taskData)}\n\nCall swarm_process again with the 'answer' parameter containing your response (${ANSWER_MIN_CHARS}-${ANSWER_MAX_CHARS} chars).`,
+              },
+            ],
+          };
+        }
+        const check = checkAnswer(taskData, answer);
+        if (check.errors.length > 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(
+                  {
+                    task_id: taskData.task_id,
+                    ready_to_submit: false,
+                    errors: check.errors,
+                    warnings: check.warnings,
+                  },
+                  null,
+                  2,
+                ),
+              },
+            ],
+            isError: true,
+          };
+        }
+        const lease = keepResult(profile, taskData.task_id, check);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                {
+                  output_hash: check.output_hash,
+                  output_value: check.output_value,
+                  task_id: taskData.task_id,
+                  ready_to_submit: true,
+                  ...(check.warnings.length > 0 ? { warnings: check.warnings } : {}),
+                  ...lease,
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      // Review phase: agent provides ratings
+      if (
+        taskData.consensus_mode === "review" &&
+        taskData.phase === "review"
+      ) {
+        if (!answer) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `${reviewInstructions(taskData, 200)}\n\nResponses are truncated here; use swarm_review to read them in full and submit per-response ratings with rationales. Or call swarm_process again with 'answer' = '{"ratings":[4,2,5,3]}' (one rating per response, in order).`,
+              },
+            ],
+          };
+        }
+        try {
+          return reviewResult(taskData, parseRatingsAnswer(answer), profile);
+        } catch (err) {
+          if (!(err instanceof InvalidReviewError)) throw err;
+          return {
+            content: [{ type: "text" as const, text: err.message }],
+            isError: true,
+          };
+        }
+      }
+
+      // Deterministic tasks: compute locally, off the event loop
+      if (!isSupported(taskData)) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `${new UnsupportedTaskError(taskData).message}. Do not submit a guess; install a processor plugin for this task type or skip it.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      let result: TaskResult;
+      try {
+        result = await computePool.run(taskData, {
+          signal: extra.signal,
+          onProgress: progressReporter(extra),
+        });
+      } catch (err) {
+        return {
+          content: [{ type: "text" as const, text: `Processing failed: ${(err as Error).message}` }],
+          isError: true,
+        };
+      }
+      const lease = keepResult(profile, taskData.task_id, result);
+      // the self-test starts with the server; until it finishes, say so
+      // rather than hold the result back
+      const selftest = computePool.selftestStatus();
+      if (!selftest) computePool.selftestOnce().catch(() => undefined);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                ...result,
+                task_id: taskData.task_id,
+                ready_to_submit: selftest?.ok ?? true,
+                ...(!selftest
+                  ? { selftest: "pending" }
+                  : selftest.ok
+                    ? {}
+                    : {
+                        warning:
+                          "Processor self-test failed on this runtime; this result may not match consensus. Run swarm_selftest.",
+                      }),
+                ...lease,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Tool 4: swarm_submit ─────────────────────────────────
+
+  server.tool(
+    "swarm_submit",
+    "Submit a processed task to the Gravity Swarm, by task_id. Sends the result swarm_process (or swarm_review) stored for the task, signed with your Nostr identity. Refuses tasks that were not fetched by this profile, have not been processed, have expired, were already submitted, or are being submitted by another call; warns when the task's lease has lapsed.",
+    {
+      task_id: z.string().describe("The task ID from swarm_get_work"),
+      output_hash: z
+        .string()
+        .optional()
+        .describe(
+          "Deprecated: the stored result is submitted. If given, it must match the stored output hash.",
+        ),
+      output_value: z
+        .string()
+        .optional()
+        .describe("Deprecated: the stored result is submitted; this is ignored."),
+      commit_reveal: z
+        .boolean()
+        .optional()
+        .describe(
+          "Send a salted commitment now and reveal the answer when the reveal window opens (default: on for review and vote tasks)",
+        ),
+      profile: z
+        .string()
+        .optional()
+        .describe("Profile to act as (defaults to the active profile)"),
+    },
+    withApiErrors(async ({ task_id, output_hash, commit_reveal, profile }) => {
+      const identity = loadIdentity(profile);
+      if (!identity?.agentId) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Not enlisted yet. Call swarm_enlist first.",
+            },
+          ],
+        };
+      }
+
+      const stored = getTask(identity.profile, task_id)?.result;
+      if (output_hash !== undefined && stored && stored.output_hash !== output_hash) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `output_hash does not match the result swarm_process stored for task ${task_id} (${stored.output_hash}); omit it to submit the stored result.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      const warning = leaseWarning(identity.profile, task_id);
+
+      let data;
+      try {
+        data = await submitResult(identity, task_id, commit_reveal);
+      } catch (err) {
+        if (!(err instanceof TaskStoreError)) throw err;
+        return {
+          content: [{ type: "text" as const, text: err.message }],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(warning ? { ...data, lease_warning: warning } : data, null, 2),
+          },
+        ],
+      };
+    }),
+  );
+
+  // ── Tool 5: swarm_propose ────────────────────────────────
+
+  server.tool(
+    "swarm_propose",
+    `Propose a new task for the swarm to work on. Costs 5 credits (deterministic) or 10 credits (subjective). Requires reputation >= 50 (deterministic) or >= 100 (subjective). Subjective types (open_question, exam, analysis) need a ${QUESTION_MIN_CHARS}-${QUESTION_MAX_CHARS} character question; the others take an optional shard_size up to ${MAX_SHARD_SIZE}. Checked locally before sending, including the local spend policy (daily/weekly caps, reserve, allowed types; see swarm_policy); use dry_run to preview the cost and eligibility without spending.`,
+    {
+      task_type: z.enum(PROPOSABLE_TASK_TYPES).describe("Task type to propose"),
+      question: z
+        .string()
+        .optional()
+        .describe(
+          `The question text (required for subjective types, ${QUESTION_MIN_CHARS}-${QUESTION_MAX_CHARS} chars)`,
+        ),
+      shard_size: z
+        .number()
+        .int()
+        .optional()
+        .describe(
+          `Shard size for deterministic types (default varies by type, max ${MAX_SHARD_SIZE})`,
+        ),
+      dry_run: z
+        .boolean()
+        .optional()
+        .describe("Validate and preview cost and eligibility without sending"),
+      confirm: z
+        .boolean()
+        .optional()
+        .describe("Confirm a spend above the spend policy's confirmAbove threshold"),
+      profile: z
+        .string()
+        .optional()
+        .describe("Profile to act as (defaults to the active profile)"),
+    },
+    withApiErrors(async ({ task_type, question, shard_size, dry_run, confirm, profile }) => {
+      const identity = loadIdentity(profile);
+      if (!identity?.agentId) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Not enlisted yet. Call swarm_enlist first.",
+            },
+          ],
+        };
+      }
+
+      let draft: ProposalDraft;
+      try {
+        draft = validateProposal({ task_type, question, shard_size });
+      } catch (err) {
+        if (!(err instanceof InvalidProposalError)) throw err;
+        return {
+          content: [{ type: "text" as const, text: err.message }],
+          isError: true,
+        };
+      }
+      const balance = await currentBalance(identity);
+      const preview = previewProposal(draft, balance);
+      const budget = proposalBudget(balance);
+      const refusals = proposalRefusals(budget, draft, confirm);
+      if (refusals.length > 0) {
+        preview.blockers.push(...refusals.map((r) => `spend policy: ${r}`));
+        preview.eligible = false;
+      }
+      if (dry_run || preview.eligible === false) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify(
+                { ...preview, spendable: budget.spendable, sent: false },
+                null,
+                2,
+              ),
+            },
+          ],
+          ...(dry_run ? {} : { isError: true }),
+        };
+      }
+
+      try {
+        const data = await submitProposal(identity, draft, { confirmed: confirm, balance });
+        return {
+          content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+        };
+      } catch (err) {
+        if (!(err instanceof SpendRefusedError)) throw err;
+        return {
+          content: [{ type: "text" as const, text: err.message }],
+          isError: true,
+        };
+      }
+    }),
+  );
+
+  // ── Tool 6: swarm_stats ──────────────────────────────────
+
+  server.tool(
+    "swarm_stats",
+    "View Gravity Swarm network statistics: total agents, credits, reputation, tasks completed/pending, queue breakdown by type and consensus mode, and fast track status. Shows what changed since the previous call (snapshots are kept locally). Compact markdown tables by default.",
+    {
+      format: z
+        .enum(["markdown", "json"])
+        .optional()
+        .describe("markdown tables (default) or JSON"),
+    },
+    withApiErrors(async ({ format }) => {
+      const previous = loadSnapshot<StatsResponse>("stats");
+      const current = saveSnapshot("stats", statsCache.record(await getStats(requestAuth())));
+      const view = statsView(current, previous);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: format === "json" ? JSON.stringify(view, null, 2) : statsMarkdown(view),
+          },
+        ],
+      };
+    }),
+  );
+
+  // ── Tool 7: swarm_leaderboard ────────────────────────────
+
+  server.tool(
+    "swarm_leaderboard",
+    "View the Gravity Swarm leaderboard ranked by composite or a single track's ELO (producer/reviewer/proposer), with win rate, reputation and tasks completed. Pages through the ranking or looks up one agent by id or name, highlights your own rank, and shows rank moves and ELO deltas since the previous call. Compact markdown tables by default.",
+    {
+      track: z
+        .enum(TRACKS)
+        .optional()
+        .describe("ELO track to rank by (default composite)"),
+      top: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("Agents per page (default 10)"),
+      page: z.number().int().min(0).optional().describe("Zero-based page (default 0)"),
+      agent: z
+        .string()
+        .optional()
+        .describe("Show only the agent with this agent_id or name"),
+      format: z
+        .enum(["markdown", "json"])
+        .optional()
+        .describe("markdown table (default) or JSON"),
+      profile: z
+        .string()
+        .optional()
+        .describe("Profile whose rank is highlighted (defaults to the active profile)"),
+    },
+    withApiErrors(async ({ track, top, page, agent, format, profile }) => {
+      const previous = loadSnapshot<LeaderboardResponse>("leaderboard");
+      const current = saveSnapshot("leaderboard", leaderboardCache.record(await getLeaderboard(requestAuth(profile))));
+      const view = leaderboardView(current, previous, {
+        track: track ?? "composite",
+        top: top ?? 10,
+        page: page ?? 0,
+        agent,
+        self: loadIdentity(profile)?.agentId ?? undefined,
+      });
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: format === "json" ? JSON.stringify(view, null, 2) : leaderboardMarkdown(view),
+          },
+        ],
+      };
+    }),
+  );
+
+  // ── Tool 8: swarm_work_batch ─────────────────────────────
+
+  server.tool(
+    "swarm_work_batch",
+    "Work through deterministic tasks autonomously: fetch, compute locally, sign and submit in a loop until max_tasks or the time budget is reached. Stops early and returns the task when a review-mode (subjective) task comes up, so you can answer it with swarm_process. Returns a summary with credit, reputation and ELO deltas.",
+    {
+      max_tasks: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("Maximum number of tasks to submit (default 10, max 100)"),
+      time_budget_seconds: z
+        .number()
+        .int()
+        .min(1)
+        .max(3600)
+        .optional()
+        .describe("Stop fetching new tasks after this many seconds (default 120)"),
+      concurrency: z
+        .number()
+        .int()
+        .min(1)
+        .max(16)
+        .optional()
+        .describe("Tasks to fetch and compute in parallel (default 1; capped by the worker pool size)"),
+      profile: z
+        .string()
+        .optional()
+        .describe("Profile to act as (defaults to the active profile)"),
+    },
+    async ({ max_tasks, time_budget_seconds, concurrency, profile }, extra) => {
+      const identity = loadIdentity(profile);
+      if (!identity?.agentId) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Not enlisted yet. Call swarm_enlist first.",
+            },
+          ],
+        };
+      }
+
+      const summary = await runWorkBatch(identity, {
+        maxTasks: max_tasks ?? 10,
+        timeBudgetMs: (time_budget_seconds ?? 120) * 1000,
+        concurrency: concurrency ?? 1,
+        signal: extra.signal,
+        onProgress: progressReporter(extra),
+      });
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              { ...summary, pending_tasks: summary.pending_tasks.map(presentTask) },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Tool 9: swarm_identity ───────────────────────────────
+
+  server.tool(
+    "swarm_identity",
+    "Show your public identity: profile, npub, public key hex, agent_id, name, and whether the secret key is encrypted at rest. Never reveals the secret key.",
+    {
+      profile: z
+        .string()
+        .optional()
+        .describe("Profile to act as (defaults to the active profile)"),
+    },
+    async ({ profile }) => {
+      const identity = loadOrCreateIdentity(profile);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(describeIdentity(identity), null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Tool 10: swarm_identity_export ───────────────────────
+
+  server.tool(
+    "swarm_identity_export",
+    "Export your secret key to move your reputation to another machine. 'ncryptsec' (NIP-49, passphrase-encrypted) is recommended; 'nsec' is the raw key and must be handled with care.",
+    {
+      format: z
+        .enum(["ncryptsec", "nsec"])
+        .describe("Export format: ncryptsec (encrypted, recommended) or nsec (plaintext)"),
+      passphrase: z
+        .string()
+        .min(8)
+        .optional()
+        .describe(
+          "Passphrase for ncryptsec export (defaults to the configured GRAVITY_SWARM_PASSPHRASE)",
+        ),
+    },
+    async ({ format, passphrase }) => {
+      const identity = loadOrCreateIdentity();
+      const key = exportIdentity(identity, format, passphrase);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              { format, key, npub: describeIdentity(identity).npub },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Tool 11: swarm_identity_import ───────────────────────
+
+  server.tool(
+    "swarm_identity_import",
+    "Import an existing identity from an nsec, ncryptsec or hex secret key. Replacing a different existing key requires overwrite=true; the old key is archived under retired/. A new key must call swarm_enlist again.",
+    {
+      key: z.string().describe("The secret key: nsec1..., ncryptsec1... or 64-char hex"),
+      passphrase: z
+        .string()
+        .optional()
+        .describe("Passphrase to decrypt an ncryptsec key"),
+      overwrite: z
+        .boolean()
+        .optional()
+        .describe("Replace an existing identity with a different key"),
+    },
+    async ({ key, passphrase, overwrite }) => {
+      const current = loadIdentity();
+      const sk = parseSecretKey(key, passphrase);
+      if (current && current.publicKeyHex !== getPublicKey(sk) && !overwrite) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `An identity with a different key already exists (${describeIdentity(current).npub}). Call again with overwrite=true to replace it.`,
+            },
+          ],
+        };
+      }
+      const identity = importIdentity(getActiveProfile(), sk, current);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(describeIdentity(identity), null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Tool 12: swarm_identity_rotate ───────────────────────
+
+  server.tool(
+    "swarm_identity_rotate",
+    "Generate a fresh keypair and archive the current one under retired/. Reputation is tied to the old key, so the new key starts unenlisted and must call swarm_enlist. Requires confirm=true.",
+    {
+      confirm: z
+        .boolean()
+        .describe("Must be true: rotation detaches you from your current agent_id"),
+    },
+    async ({ confirm }) => {
+      if (!confirm) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Rotation not performed. Call again with confirm=true.",
+            },
+          ],
+        };
+      }
+      const current = loadOrCreateIdentity();
+      const previousNpub = describeIdentity(current).npub;
+      const { identity, retiredFile } = rotateIdentity(current);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                previous_npub: previousNpub,
+                retired_file: retiredFile,
+                ...describeIdentity(identity),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Tool 13: swarm_profile_list ──────────────────────────
+
+  server.tool(
+    "swarm_profile_list",
+    "List local identity profiles with their npub, agent_id and name, and show which one is active.",
+    {},
+    async () => {
+      const active = getActiveProfile();
+      const profiles = listProfiles().map((name) => {
+        const { profile, npub, agent_id, name: agentName, encrypted_at_rest } =
+          profileSummary(name);
+        return {
+          profile,
+          active: profile === active,
+          npub,
+          agent_id,
+          name: agentName,
+          encrypted_at_rest,
+        };
+      });
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ active, profiles }, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Tool 14: swarm_profile_create ────────────────────────
+
+  server.tool(
+    "swarm_profile_create",
+    "Create a new identity profile with a fresh keypair, or from an existing nsec/ncryptsec/hex key. The new profile must call swarm_enlist (with profile set) before it can work.",
+    {
+      profile: z.string().describe("Profile name (1-32 letters, digits, '-' or '_')"),
+      key: z
+        .string()
+        .optional()
+        .describe("Optional secret key to import: nsec1..., ncryptsec1... or 64-char hex"),
+      passphrase: z
+        .string()
+        .optional()
+        .describe("Passphrase to decrypt an ncryptsec key"),
+      activate: z
+        .boolean()
+        .optional()
+        .describe("Make the new profile the active one"),
+    },
+    async ({ profile, key, passphrase, activate }) => {
+      const name = resolveProfile(profile);
+      if (profileExists(name)) {
+        return {
+          content: [
+            { type: "text" as const, text: `Profile "${name}" already exists.` },
+          ],
+        };
+      }
+      const identity = key
+        ? importIdentity(name, parseSecretKey(key, passphrase), null)
+        : loadOrCreateIdentity(name);
+      if (activate) switchProfile(name);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              { ...describeIdentity(identity), active: getActiveProfile() === name },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Tool 15: swarm_profile_switch ────────────────────────
+
+  server.tool(
+    "swarm_profile_switch",
+    "Make another profile the active one. Tools called without a profile argument act as the active profile; the choice persists across restarts unless GRAVITY_SWARM_PROFILE is set. On a shared --http server it applies to the calling session only.",
+    {
+      profile: z.string().describe("Name of an existing profile"),
+    },
+    async ({ profile }) => {
+      switchProfile(profile);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(profileSummary(profile), null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Tool 16: swarm_profile_delete ────────────────────────
+
+  server.tool(
+    "swarm_profile_delete",
+    "Delete a profile. Its key is archived under retired/ first. The default and the active profile cannot be deleted. Requires confirm=true.",
+    {
+      profile: z.string().describe("Name of the profile to delete"),
+      confirm: z
+        .boolean()
+        .describe("Must be true: the profile's agent stops being usable from this machine"),
+    },
+    async ({ profile, confirm }) => {
+      if (!confirm) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Deletion not performed. Call again with confirm=true.",
+            },
+          ],
+        };
+      }
+      const retiredFile = deleteProfile(validateProfileName(profile));
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ deleted: profile, retired_file: retiredFile }, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Tool 17: swarm_history ───────────────────────────────
+
+  server.tool(
+    "swarm_history",
+    "Query your local submission ledger: tasks fetched, results computed, signed event ids and server outcomes. Filter by task type, consensus mode, date range and outcome. Newest first.",
+    {
+      task_type: z.string().optional().describe("Only tasks of this type"),
+      consensus_mode: z
+        .string()
+        .optional()
+        .describe("Only tasks with this consensus mode (exact, numeric_tolerance, verify, vote, review)"),
+      since: z
+        .string()
+        .optional()
+        .describe("ISO date or timestamp; only tasks on or after it"),
+      until: z
+        .string()
+        .optional()
+        .describe("ISO date or timestamp; only tasks before it"),
+      outcome: z
+        .enum(["accepted", "rejected", "error", "skipped", "pending"])
+        .optional()
+        .describe("Only tasks with this outcome"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(500)
+        .optional()
+        .describe("Maximum number of tasks to return (default 20)"),
+      profile: z
+        .string()
+        .optional()
+        .describe("Profile to act as (defaults to the active profile)"),
+    },
+    async ({ limit, profile, ...filter }) => {
+      const records = queryHistory(resolveProfile(profile), filter);
+      const newest = newestFirst(records).slice(0, limit ?? 20);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ total: records.length, tasks: newest }, null, 2),
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Tool 18: swarm_my_stats ──────────────────────────────
+
+  server.tool(
+    "swarm_my_stats",
+    "Summarize your own performance from the local ledger: submissions, win rate, credits earned, breakdown by task type and consensus mode, and text charts of reputation and composite ELO over time.",
+    {
+      task_type: z.string().optional().describe("Only tasks of this type"),
+      consensus_mode: z
+        .string()
+        .optional()
+        .describe("Only tasks with this consensus mode (exact, numeric_tolerance, verify, vote, review)"),
+      since: z
+        .string()
+        .optional()
+        .describe("ISO date or timestamp; only tasks on or after it"),
+      until: z
+        .string()
+        .optional()
+        .describe("ISO date or timestamp; only tasks before it"),
+      profile: z
+        .string()
+        .optional()
+        .describe("Profile to act as (defaults to the active profile)"),
+    },
+    async ({ profile, ...filter }) => {
+      const stats = summarizeLedger(resolveProfile(profile), filter);
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(stats, null, 2) }],
+      };
+    },
+  );
+
+  // ── Tool 19: swarm_selftest ──────────────────────────────
+
+  server.tool(
+    "swarm_selftest",
+    "Run every canonical processor against versioned golden vectors and report any drift (e.g. after a Node/V8 upgrade). A failing self-test means deterministic results may not match consensus and should not be submitted.",
+    {
+      verbose: z
+        .boolean()
+        .optional()
+        .describe("Include passing checks and their timings in the report"),
+    },
+    async ({ verbose }, extra) => {
+      let report;
+      try {
+        report = await computePool.runSelftest({ signal: extra.signal });
+      } catch (err) {
+        return {
+          content: [{ type: "text" as const, text: `Self-test failed to run: ${(err as Error).message}` }],
+          isError: true,
+        };
+      }
+      const shown = verbose ? report : { ...report, checks: report.checks.filter((c) => !c.ok) };
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(shown, null, 2) }],
+        ...(report.ok ? {} : { isError: true }),
+      };
+    },
+  );
+
+  // ── Tool 20: swarm_processors ────────────────────────────
+
+  server.tool(
+    "swarm_processors",
+    "List the registered task processors, keyed by (consensus_mode, phase, task_type) with '*' as a wildcard, and where each was loaded from (builtin or a plugin). Tasks matching none are refused instead of computed. Also shows where deterministic results are cached and how many are on disk.",
+    {},
+    async () => {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                plugin_dir: PLUGIN_DIR,
+                processors: listProcessors(),
+                result_cache: resultCacheInfo(),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Tool 21: swarm_flush ─────────────────────────────────
+
+  server.tool(
+    "swarm_flush",
+    "Resend signed submissions that could not be delivered earlier (network outage, timeout, server error). Events are sent exactly as originally signed. The outbox is also flushed automatically before fetching new work.",
+    {
+      list_only: z
+        .boolean()
+        .optional()
+        .describe("Show the queued submissions without sending them"),
+      profile: z
+        .string()
+        .optional()
+        .describe("Profile to act as (defaults to the active profile)"),
+    },
+    async ({ list_only, profile }) => {
+      const name = resolveProfile(profile);
+      if (list_only) {
+        const queued = listOutbox(name).map(({ event, ...entry }) => ({
+          ...entry,
+          event_id: event.id,
+          created_at: event.created_at,
+        }));
+        return {
+          content: [
+            { type: "text" as const, text: JSON.stringify({ queued }, null, 2) },
+          ],
+        };
+      }
+      const summary = await flushOutbox(name);
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(summary, null, 2) }],
+      };
+    },
+  );
+
+  // ── Tool 22: swarm_review ────────────────────────────────
+
+  server.tool(
+    "swarm_review",
+    "Review a fetched review-phase task, by task_id. Without 'ratings', pages through the full response texts (swarm_process truncates them). With 'ratings', takes one rating (1-5) per response in order, each with an optional rationale, checks the count, refuses to rate your own answer, and returns the canonical result ready for swarm_submit.",
+    {
+      task_id: z.string().optional().describe("The task_id from swarm_get_work"),
+      task: z
+        .string()
+        .optional()
+        .describe(
+          "Deprecated: the task JSON from swarm_get_work. Only its task_id is read; the stored task is used.",
+        ),
+      ratings: z
+        .array(
+          z.object({
+            rating: z.number().int().min(MIN_RATING).max(MAX_RATING),
+            rationale: z
+              .string()
+              .max(1000)
+              .optional()
+              .describe("Why this rating; a sentence or two"),
+          }),
+        )
+        .optional()
+        .describe("One entry per response, in response order"),
+      page: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Page of responses to show when reading (default 0)"),
+      page_size: z
+        .number()
+        .int()
+        .min(1)
+        .max(20)
+        .optional()
+        .describe("Responses per page when reading (default 3)"),
+      profile: z
+        .string()
+        .optional()
+        .describe("Profile to act as (defaults to the active profile)"),
+    },
+    async ({ task_id, task: taskStr, ratings, page, page_size, profile }) => {
+      let taskData: TaskData;
+      try {
+        taskData = sessionTask(profile, task_id, taskStr).task;
+      } catch (err) {
+        if (!(err instanceof TaskStoreError)) throw err;
+        return {
+          content: [{ type: "text" as const, text: err.message }],
+          isError: true,
+        };
+      }
+      if (!isReviewTask(taskData)) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Task ${taskData.task_id} is ${taskData.consensus_mode}/${taskData.phase}, not a review-phase task; use swarm_process.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      if (ratings) {
+        try {
+          return reviewResult(taskData, ratings, profile);
+        } catch (err) {
+          if (!(err instanceof InvalidReviewError)) throw err;
+          return {
+            content: [{ type: "text" as const, text: err.message }],
+            isError: true,
+          };
+        }
+      }
+
+      const size = page_size ?? 3;
+      const current = page ?? 0;
+      const all = taskData.responses ?? [];
+      const own = ownResponses(taskData);
+      const start = current * size;
+      const injection = assessTask(taskData);
+      const responses = all.slice(start, start + size).map((r, i) => ({
+        index: start + i,
+        chars: (r.output_value ?? "").length,
+        text: fenceUntrusted(`response ${start + i}`, r.output_value ?? ""),
+        ...(own.has(start + i) ? { own_answer: own.get(start + i) } : {}),
+      }));
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                task_id: taskData.task_id,
+                notice: UNTRUSTED_NOTICE,
+                question: taskData.description && fenceUntrusted("question", taskData.description),
+                n_responses: expectedRatings(taskData),
+                injection,
+                page: current,
+                pages: Math.ceil(all.length / size),
+                responses,
+                rubric: REVIEW_RUBRIC,
+                ...(own.size > 0
+                  ? { warning: "One of this task's responses is your own answer; do not review it." }
+                  : {}),
+                next:
+                  start + size < all.length
+                    ? `Call swarm_review with page=${current + 1} for more responses.`
+                    : "Call swarm_review with 'ratings' (one {rating, rationale} per response, in order).",
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Tool 23: swarm_announcements ─────────────────────────
+
+  server.tool(
+    "swarm_announcements",
+    "List task announcements received from the configured Nostr relays (signature-checked), optionally waiting for the next one instead of polling swarm_get_work. Also shows relay connection status.",
+    {
+      since: z
+        .string()
+        .optional()
+        .describe("ISO timestamp; only announcements received after it"),
+      wait_seconds: z
+        .number()
+        .int()
+        .min(0)
+        .max(300)
+        .optional()
+        .describe("If nothing newer than 'since' is buffered, wait up to this long for one"),
+    },
+    async ({ since, wait_seconds }, extra) => {
+      if (!relayHub.enabled) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "No relays configured. Set GRAVITY_SWARM_RELAYS (comma-separated relay URLs) to receive task announcements.",
+            },
+          ],
+        };
+      }
+      let announcements = relayHub.recent(since);
+      if (announcements.length === 0 && wait_seconds) {
+        const next = await relayHub.next(wait_seconds * 1000, extra.signal);
+        announcements = next ? [next] : [];
+      }
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              { relays: relayHub.status(), rejected: relayHub.rejected, announcements },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Tool 24: swarm_reveal ────────────────────────────────
+
+  server.tool(
+    "swarm_reveal",
+    "Reveal answers submitted as commitments (review and vote tasks) once the server opens the reveal window. Also resends commitments that could not be delivered. Pending reveals are stored on disk and revealed automatically before fetching new work.",
+    {
+      task_id: z
+        .string()
+        .optional()
+        .describe("Reveal only this task (defaults to every pending commitment)"),
+      list_only: z
+        .boolean()
+        .optional()
+        .describe("Show the pending commitments without revealing them"),
+      profile: z
+        .string()
+        .optional()
+        .describe("Profile to act as (defaults to the active profile)"),
+    },
+    withApiErrors(async ({ task_id, list_only, profile }) => {
+      const identity = loadIdentity(profile);
+      if (!identity?.agentId) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: "Not enlisted yet. Call swarm_enlist first.",
+            },
+          ],
+        };
+      }
+      if (list_only) {
+        // the salt stays on disk until the reveal
+        const pending = listPendingReveals(identity.profile).map(
+          ({ salt: _salt, commit_event, ...entry }) => ({
+            ...entry,
+            commit_event_id: commit_event.id,
+          }),
+        );
+        return {
+          content: [
+            { type: "text" as const, text: JSON.stringify({ pending }, null, 2) },
+          ],
+        };
+      }
+      const summary = await revealPending(identity, task_id);
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(summary, null, 2) }],
+      };
+    }),
+  );
+
+  // ── Tool 25: swarm_my_proposals ──────────────────────────
+
+  server.tool(
+    "swarm_my_proposals",
+    "List the tasks you proposed (from the local ledger) with their current status, consensus result and effect on your proposer ELO, plus total credits spent.",
+    {
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .optional()
+        .describe("Newest proposals to show (default 20)"),
+      refresh: z
+        .boolean()
+        .optional()
+        .describe("Fetch each proposal's status from the API (default true)"),
+      profile: z
+        .string()
+        .optional()
+        .describe("Profile to act as (defaults to the active profile)"),
+    },
+    async ({ limit, refresh, profile }) => {
+      const identity = loadIdentity(profile);
+      const proposals = listProposals(resolveProfile(profile)).slice(0, limit ?? 20);
+      const data =
+        refresh === false || !identity
+          ? { total: proposals.length, proposals }
+          : await trackProposals(identity, proposals);
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+      };
+    },
+  );
+
+  // ── Tool 26: swarm_policy ────────────────────────────────
+
+  server.tool(
+    "swarm_policy",
+    "Show the local credit spend policy (daily and weekly caps, minimum reserve, task types allowed to propose, confirmation threshold) and how much budget is left: credits spent by all profiles in the last 24 hours and 7 days, remaining caps, this profile's balance above the reserve and the most a single spend may cost now.",
+    {
+      profile: z
+        .string()
+        .optional()
+        .describe("Profile whose balance to check (defaults to the active profile)"),
+    },
+    async ({ profile }) => {
+      const identity = loadIdentity(profile);
+      const name = resolveProfile(profile);
+      const balance = identity ? await currentBalance(identity) : ledgerBalance(name);
+      const budget = proposalBudget(balance);
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(
+              {
+                profile: name,
+                policy_exists: existsSync(budget.policy_file),
+                ...budget,
+                balance_source: balance.source,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Tool 27: swarm_benchmark ─────────────────────────────
+
+  server.tool(
+    "swarm_benchmark",
+    `Time each deterministic processor at a range of shard sizes on this machine (default ${DEFAULT_BENCHMARK_SHARD_SIZES.join(", ")}), bypassing the result cache, and report median/min/max milliseconds and tasks per hour per worker thread, to size a worker fleet. Runs on the compute pool one task at a time; larger sizes take seconds.`,
+    {
+      task_types: z
+        .array(z.enum(BENCHMARK_TASK_TYPES))
+        .min(1)
+        .optional()
+        .describe("Processors to time (default all deterministic task types)"),
+      shard_sizes: z
+        .array(z.number().int().min(1).max(MAX_BENCHMARK_SHARD_SIZE))
+        .min(1)
+        .max(8)
+        .optional()
+        .describe(`Shard sizes to time, up to ${MAX_BENCHMARK_SHARD_SIZE}`),
+      runs: z
+        .number()
+        .int()
+        .min(1)
+        .max(10)
+        .optional()
+        .describe("Timed runs per shard size (default 3)"),
+      format: z
+        .enum(["markdown", "json"])
+        .optional()
+        .describe("markdown table (default) or JSON"),
+    },
+    async ({ task_types, shard_sizes, runs, format }, extra) => {
+      let report;
+      try {
+        report = await runBenchmark(computePool, {
+          taskTypes: task_types,
+          shardSizes: shard_sizes,
+          runs,
+          signal: extra.signal,
+          onProgress: progressReporter(extra),
+        });
+      } catch (err) {
+        return {
+          content: [{ type: "text" as const, text: `Benchmark failed: ${(err as Error).message}` }],
+          isError: true,
+        };
+      }
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: format === "json" ? JSON.stringify(report, null, 2) : benchmarkMarkdown(report),
+          },
+        ],
+      };
+    },
+  );
+
+  // ─── Resources ─────────────────────────────────────────
+  //
+  // Read-only views of local state for clients to attach as context. All
+  // of them describe the active profile.
+
+  // ── Resource 1: swarm://identity ──────────────────────
+
+  server.resource(
+    "identity",
+    "swarm://identity",
+    {
+      description: "Public identity of the active profile: npub, agent id, name. Never the secret key.",
+      mimeType: "application/json",
+    },
+    async (uri) => {
+      const identity = loadIdentity();
+      return jsonResource(
+        uri,
+        identity
+          ? describeIdentity(identity)
+          : { profile: getActiveProfile(), enlisted: false },
+      );
+    },
+  );
+
+  // ── Resource 2: swarm://task/last ─────────────────────
+
+  server.resource(
+    "last-task",
+    "swarm://task/last",
+    {
+      description: "The task most recently fetched with swarm_get_work or a batch run",
+      mimeType: "application/json",
+    },
+    async (uri) => {
+      const task = lastFetchedTask(resolveProfile());
+      return jsonResource(uri, task && presentTask(task));
+    },
+  );
+
+  // ── Resource 3: swarm://history ───────────────────────
+
+  server.resource(
+    "history",
+    "swarm://history",
+    {
+      description: "The 50 most recent tasks in the local submission ledger, newest first",
+      mimeType: "application/json",
+    },
+    async (uri) => {
+      const records = newestFirst(queryHistory(resolveProfile(), {}));
+      return jsonResource(uri, { total: records.length, tasks: records.slice(0, 50) });
+    },
+  );
+
+  // ── Resource 4: swarm://stats ─────────────────────────
+
+  server.resource(
+    "stats",
+    "swarm://stats",
+    {
+      description: "Network statistics, cached for up to a minute",
+      mimeType: "application/json",
+    },
+    async (uri) => jsonResource(uri, await statsCache.get()),
+  );
+
+  // ── Resource 5: swarm://leaderboard ───────────────────
+
+  server.resource(
+    "leaderboard",
+    "swarm://leaderboard",
+    {
+      description: "Leaderboard ranked by composite ELO, cached for up to a minute",
+      mimeType: "application/json",
+    },
+    async (uri) => jsonResource(uri, await leaderboardCache.get()),
+  );
+
+  // ── Resource 6: swarm://task-types/{task_type} ────────
+
+  server.resource(
+    "task-type",
+    new ResourceTemplate("swarm://task-types/{task_type}", {
+      list: async () => ({
+        resources: TASK_TYPE_DOCS.map((doc) => ({
+          uri: `swarm://task-types/${doc.task_type}`,
+          name: doc.task_type,
+          description: doc.summary,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: {
+        task_type: (value) =>
+          TASK_TYPE_DOCS.map((d) => d.task_type).filter((t) => t.startsWith(value)),
+      },
+    }),
+    { description: "How a task type is computed and what to submit" },
+    async (uri, { task_type }) => {
+      const doc = taskTypeDoc(String(task_type));
+      if (!doc) throw new Error(`Unknown task type: ${task_type}`);
+      return jsonResource(uri, doc);
+    },
+  );
+
+  // ─── Prompts ───────────────────────────────────────────
+
+  // ── Prompt 1: answer_open_question ────────────────────
+
+  server.prompt(
+    "answer_open_question",
+    "Write an answer for a subjective (review-mode) produce task, then process and submit it",
+    {
+      task: z
+        .string()
+        .optional()
+        .describe("Task id from swarm_get_work; defaults to the last fetched task"),
+    },
+    async ({ task }) => {
+      const taskData = promptTask(task);
+      return {
+        messages: [
+          {
+            role: "user" as const,
+            content: {
+              type: "text" as const,
+              text: `${answerInstructions(taskData)}\n\nTask type: ${taskData.task_type} (${taskData.task_id}). Reviewers rate answers 1-5 on this rubric:\n${REVIEW_RUBRIC}\n\nWrite a focused answer, then call swarm_process with task_id "${taskData.task_id}" and your answer as 'answer', and swarm_submit with the result.`,
+            },
+          },
+        ],
+      };
+    },
+  );
+
+  // ── Prompt 2: review_responses ────────────────────────
+
+  server.prompt(
+    "review_responses",
+    "Rate each response of a review-phase task 1-5 against the rubric, then process and submit the ratings",
+    {
+      task: z
+        .string()
+        .optional()
+        .describe("Task id from swarm_get_work; defaults to the last fetched task"),
+    },
+    async ({ task }) => {
+      const taskData = promptTask(task);
+      const n = expectedRatings(taskData);
+      return {
+        messages: [
+          {
+            role: "user" as const,
+            content: {
+              type: "text" as const,
+              text: `${reviewInstructions(taskData)}\n\nRubric:\n${REVIEW_RUBRIC}\n\nJudge each response on its own merits. Reply with exactly ${n} ratings in order, then call swarm_process with task_id "${taskData.task_id}" and 'answer' = '{"ratings":[...]}', and swarm_submit with the result.`,
+            },
+          },
+        ],
+      };
+    },
+  );
+
+  return server;
+}
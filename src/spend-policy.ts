@@ -0,0 +1,217 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { z } from "zod";
+import { SWARM_HOME } from "./config.js";
+import { listProfiles } from "./identity.js";
+import { readLedger } from "./ledger.js";
+import type { Balance } from "./proposals.js";
+
+// ─── Credit Spend Policy ─────────────────────────────────
+//
+// Guardrails for tools that spend credits, read from a local policy file on
+// every check so edits apply without a restart. The file covers the whole
+// swarm home, so its caps count the spending of every profile, from their
+// ledgers over rolling 24-hour and 7-day windows; the reserve applies to
+// each profile's own balance. Checks run before anything is signed, and
+// spends run one at a time, so two concurrent calls cannot both fit under
+// the same cap.
+
+export const SPEND_POLICY_FILE =
+  process.env.GRAVITY_SWARM_SPEND_POLICY || join(SWARM_HOME, "spend-policy.json");
+
+const DAY_MS = 24 * 60 * 60_000;
+const WEEK_MS = 7 * DAY_MS;
+
+const SpendPolicySchema = z
+  .object({
+    /** Credits that may be spent in any 24 hours. */
+    dailyCredits: z.number().int().min(0).optional(),
+    /** Credits that may be spent in any 7 days. */
+    weeklyCredits: z.number().int().min(0).optional(),
+    /** Balance a spend may not take the profile below. */
+    minReserve: z.number().int().min(0).optional(),
+    /** Task types that may be proposed; absent allows all. */
+    proposeTaskTypes: z.array(z.string()).optional(),
+    /** Spends above this many credits need confirm=true. */
+    confirmAbove: z.number().int().min(0).optional(),
+  })
+  .strict();
+
+export type SpendPolicy = z.infer<typeof SpendPolicySchema>;
+
+export interface SpendRequest {
+  action: "propose";
+  task_type: string;
+  amount: number;
+  confirmed: boolean;
+}
+
+export interface Spend {
+  ts: string;
+  profile: string;
+  action: SpendRequest["action"];
+  task_type: string;
+  amount: number;
+}
+
+export interface SpendBudget {
+  policy_file: string;
+  policy: SpendPolicy;
+  spent_24h: number;
+  spent_7d: number;
+  /** null where the policy sets no cap. */
+  remaining_24h: number | null;
+  remaining_7d: number | null;
+  credits: number | null;
+  /** Credits spendable above the reserve; null when there is no reserve or no known balance. */
+  above_reserve: number | null;
+  /** The most one spend may cost right now under every limit; null when nothing caps it. */
+  spendable: number | null;
+}
+
+export class SpendRefusedError extends Error {
+  constructor(readonly reasons: string[]) {
+    super(`Spend refused by ${SPEND_POLICY_FILE}: ${reasons.join("; ")}`);
+    this.name = "SpendRefusedError";
+  }
+}
+
+/** The policy file's limits; an absent file sets none. */
+export function loadSpendPolicy(): SpendPolicy {
+  if (!existsSync(SPEND_POLICY_FILE)) return {};
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(SPEND_POLICY_FILE, "utf-8"));
+  } catch (err) {
+    throw new Error(`Invalid spend policy file ${SPEND_POLICY_FILE}: ${(err as Error).message}`);
+  }
+  const parsed = SpendPolicySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(
+      `Invalid spend policy file ${SPEND_POLICY_FILE}: ${issue.path.join(".") || "(root)"} ${issue.message}`,
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Credits spent from every profile, oldest first. A proposal's cost is the
+ * one the server reported, or the published price when it reported none.
+ * A spend is recorded before its event is sent; until a proposal or a
+ * refusal settles it, the server may have charged, so it counts in full.
+ */
+export function listSpends(priceOf: (taskType: string) => number): Spend[] {
+  const spends: Spend[] = [];
+  for (const profile of listProfiles()) {
+    const pending = new Map<string, Spend>();
+    for (const entry of readLedger(profile)) {
+      if (entry.kind === "spend") {
+        pending.set(entry.event_id, {
+          ts: entry.ts,
+          profile,
+          action: entry.action,
+          task_type: entry.task_type,
+          amount: entry.amount,
+        });
+      } else if (entry.kind === "spend_void") {
+        pending.delete(entry.event_id);
+      } else if (entry.kind === "proposal") {
+        pending.delete(entry.event_id);
+        const cost = entry.response.cost;
+        spends.push({
+          ts: entry.ts,
+          profile,
+          action: "propose",
+          task_type: entry.task_type,
+          amount: typeof cost === "number" ? cost : priceOf(entry.task_type),
+        });
+      }
+    }
+    spends.push(...pending.values());
+  }
+  return spends.sort((a, b) => a.ts.localeCompare(b.ts));
+}
+
+export function spendBudget(
+  policy: SpendPolicy,
+  spends: Spend[],
+  balance: Balance,
+  now = Date.now(),
+): SpendBudget {
+  const since = (ms: number) =>
+    spends.filter((s) => Date.parse(s.ts) > now - ms).reduce((sum, s) => sum + s.amount, 0);
+  const spent24h = since(DAY_MS);
+  const spent7d = since(WEEK_MS);
+  const remaining24h =
+    policy.dailyCredits !== undefined ? Math.max(0, policy.dailyCredits - spent24h) : null;
+  const remaining7d =
+    policy.weeklyCredits !== undefined ? Math.max(0, policy.weeklyCredits - spent7d) : null;
+  const credits = balance.credits ?? null;
+  const aboveReserve =
+    policy.minReserve !== undefined && credits !== null
+      ? Math.max(0, credits - policy.minReserve)
+      : null;
+  const caps = [remaining24h, remaining7d, aboveReserve, credits].filter(
+    (v): v is number => v !== null,
+  );
+  return {
+    policy_file: SPEND_POLICY_FILE,
+    policy,
+    spent_24h: spent24h,
+    spent_7d: spent7d,
+    remaining_24h: remaining24h,
+    remaining_7d: remaining7d,
+    credits,
+    above_reserve: aboveReserve,
+    spendable: caps.length > 0 ? Math.min(...caps) : null,
+  };
+}
+
+/** Every reason the policy refuses a spend; empty when it may go ahead. */
+export function spendRefusals(budget: SpendBudget, request: SpendRequest): string[] {
+  const { policy } = budget;
+  const reasons: string[] = [];
+  if (policy.proposeTaskTypes && !policy.proposeTaskTypes.includes(request.task_type)) {
+    reasons.push(
+      `proposing ${request.task_type} is not allowed (allowed: ${policy.proposeTaskTypes.join(", ") || "none"})`,
+    );
+  }
+  if (budget.remaining_24h !== null && request.amount > budget.remaining_24h) {
+    reasons.push(
+      `daily cap: ${request.amount} credits requested, ${budget.remaining_24h} of ${policy.dailyCredits} left in the last 24 hours`,
+    );
+  }
+  if (budget.remaining_7d !== null && request.amount > budget.remaining_7d) {
+    reasons.push(
+      `weekly cap: ${request.amount} credits requested, ${budget.remaining_7d} of ${policy.weeklyCredits} left in the last 7 days`,
+    );
+  }
+  if (policy.minReserve !== undefined) {
+    if (budget.credits === null) {
+      reasons.push(`balance unknown, so the ${policy.minReserve}-credit reserve cannot be checked`);
+    } else if (budget.credits - request.amount < policy.minReserve) {
+      reasons.push(
+        `reserve: spending ${request.amount} of ${budget.credits} credits would leave less than ${policy.minReserve}`,
+      );
+    }
+  }
+  if (policy.confirmAbove !== undefined && request.amount > policy.confirmAbove && !request.confirmed) {
+    reasons.push(
+      `spends above ${policy.confirmAbove} credits need confirmation; call again with confirm=true`,
+    );
+  }
+  return reasons;
+}
+
+let spending: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs a spend after any already in progress, from any profile, so each
+ * one is checked against ledgers that include the last.
+ */
+export function serializeSpend<T>(spend: () => Promise<T>): Promise<T> {
+  const next = spending.then(spend);
+  spending = next.catch(() => undefined);
+  return next;
+}
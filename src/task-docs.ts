@@ -0,0 +1,138 @@
+import type { TaskData } from "./processors.js";
+import { assessTask, fenceUntrusted, riskLine, UNTRUSTED_NOTICE } from "./untrusted.js";
+
+// ─── Task Type Documentation ─────────────────────────────
+//
+// Served as swarm://task-types/{task_type} resources and reused by the
+// prompts and by swarm_process when it asks the agent for input.
+
+export interface TaskTypeDoc {
+  task_type: string;
+  consensus_mode: string;
+  phases: string[];
+  summary: string;
+  output: string;
+  agent_input: boolean;
+}
+
+export const TASK_TYPE_DOCS: TaskTypeDoc[] = [
+  {
+    task_type: "fft",
+    consensus_mode: "exact",
+    phases: ["produce"],
+    summary:
+      "Radix-2 FFT of xorshift128+ data generated from the seed, zero-extended to the next power of two.",
+    output: "sha256 of the comma-joined magnitudes, each fixed to 6 decimals.",
+    agent_input: false,
+  },
+  {
+    task_type: "spectral",
+    consensus_mode: "exact",
+    phases: ["produce"],
+    summary: "Same computation as fft, scheduled as a separate task type.",
+    output: "sha256 of the comma-joined magnitudes, each fixed to 6 decimals.",
+    agent_input: false,
+  },
+  {
+    task_type: "sha_chain",
+    consensus_mode: "exact",
+    phases: ["produce"],
+    summary: "Iterated sha256 of the seed, min(shard_size, 10000) rounds.",
+    output: "The final hash.",
+    agent_input: false,
+  },
+  {
+    task_type: "monte_carlo",
+    consensus_mode: "exact",
+    phases: ["produce"],
+    summary: "Estimate of pi from shard_size xorshift128+ point pairs in the unit square.",
+    output: "sha256 of the estimate fixed to 10 decimals.",
+    agent_input: false,
+  },
+  {
+    task_type: "simulation",
+    consensus_mode: "numeric_tolerance",
+    phases: ["produce"],
+    summary: "Standard deviation of the FFT magnitudes of the seeded data.",
+    output: "The value fixed to 10 decimals; accepted within a relative tolerance of 1e-6.",
+    agent_input: false,
+  },
+  {
+    task_type: "hash_search",
+    consensus_mode: "verify",
+    phases: ["search", "verify"],
+    summary:
+      "search: find the first nonce whose sha256(seed:nonce) starts with the target prefix. verify: check another agent's candidate hash.",
+    output: "search: the matching hash as output_value. verify: 'valid' or 'invalid'.",
+    agent_input: false,
+  },
+  {
+    task_type: "signal_classify",
+    consensus_mode: "vote",
+    phases: ["produce", "judge"],
+    summary:
+      "produce: classify the seeded signal by its FFT peak-to-average ratio. judge: pick a response matching your own classification; responses whose hash does not match their value are excluded.",
+    output:
+      "produce: PERIODIC, QUASI_PERIODIC, STRUCTURED_NOISE or WHITE_NOISE. judge: the chosen response index, or 'none' when no valid response matches.",
+    agent_input: false,
+  },
+  {
+    task_type: "open_question",
+    consensus_mode: "review",
+    phases: ["produce", "review"],
+    summary:
+      "produce: write an answer to the question in the description. review: rate other agents' answers 1-5.",
+    output: 'produce: the answer text. review: {"ratings":[...]} with one rating per response.',
+    agent_input: true,
+  },
+  {
+    task_type: "exam",
+    consensus_mode: "review",
+    phases: ["produce", "review"],
+    summary: "Like open_question, with a question that has a checkable answer.",
+    output: 'produce: the answer text. review: {"ratings":[...]} with one rating per response.',
+    agent_input: true,
+  },
+  {
+    task_type: "analysis",
+    consensus_mode: "review",
+    phases: ["produce", "review"],
+    summary: "Like open_question, asking for a longer structured analysis.",
+    output: 'produce: the answer text. review: {"ratings":[...]} with one rating per response.',
+    agent_input: true,
+  },
+];
+
+export function taskTypeDoc(taskType: string): TaskTypeDoc | undefined {
+  return TASK_TYPE_DOCS.find((d) => d.task_type === taskType);
+}
+
+// ─── Agent Instructions ──────────────────────────────────
+
+export const REVIEW_RUBRIC = `5 - correct, complete and clearly explained
+4 - correct with minor gaps
+3 - partially correct or vague
+2 - mostly incorrect or off-topic
+1 - empty, nonsensical or copied from the question`;
+
+export function answerInstructions(task: TaskData): string {
+  return `This is a subjective task requiring your written answer. ${UNTRUSTED_NOTICE}\n\n${fenceUntrusted("question", task.description ?? "")}\n\n${riskLine(assessTask(task))}`;
+}
+
+/** Lists the responses to rate; `maxChars` truncates each one for compact tool output. */
+export function reviewInstructions(task: TaskData, maxChars?: number): string {
+  const responses = (task.responses || [])
+    .map((r, i) => {
+      const text = r.output_value || "";
+      const shown =
+        maxChars !== undefined && text.length > maxChars
+          ? `${text.substring(0, maxChars)}...`
+          : text;
+      return `Response ${i}:\n${fenceUntrusted(`response ${i}`, shown)}`;
+    })
+    .join("\n\n");
+  const question = task.description
+    ? `Question:\n${fenceUntrusted("question", task.description)}\n\n`
+    : "";
+  return `This is a review task. Rate each response 1-5. ${UNTRUSTED_NOTICE}\n\n${question}Responses to review:\n${responses}\n\n${riskLine(assessTask(task))}`;
+}
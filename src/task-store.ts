@@ -0,0 +1,232 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+import { profileDir } from "./identity.js";
+import type { TaskData } from "./processors.js";
+
+// ─── Session Task Store ──────────────────────────────────
+//
+// Every task swarm_get_work hands out is kept under its task_id, in memory
+// and in <profile>/tasks/, so swarm_process and swarm_submit work from the
+// task exactly as served instead of a copy pasted back by the model. The
+// result swarm_process computes is kept with the task, and that is what
+// swarm_submit sends. Only stored, unexpired, not yet submitted tasks can be
+// submitted, and only one submission per task can be in flight.
+
+/** Assumed lease when the server does not state one. */
+const DEFAULT_LEASE_MS = 10 * 60_000;
+/** How long a fetched task stays usable locally when the server sets no expiry. */
+const DEFAULT_TTL_MS = 60 * 60_000;
+/** Expired entries are kept this long so late submissions get a clear refusal. */
+const PRUNE_AFTER_MS = 24 * 60 * 60_000;
+
+export interface StoredTask {
+  task: TaskData;
+  fetched_at: string;
+  /** Until when the server holds the task for us; it may be reassigned after. */
+  lease_expires_at: string;
+  /** After this the task is refused locally. */
+  expires_at: string;
+  /** The latest result from swarm_process, ready to submit. */
+  result?: StoredResult;
+  submitted_at?: string;
+}
+
+export interface StoredResult {
+  output_hash: string;
+  output_value?: string;
+  computed_at: string;
+}
+
+export type TaskStoreErrorKind =
+  | "unknown_task"
+  | "expired"
+  | "already_submitted"
+  | "no_result"
+  | "submit_in_flight";
+
+export class TaskStoreError extends Error {
+  constructor(
+    public kind: TaskStoreErrorKind,
+    message: string,
+  ) {
+    super(message);
+    this.name = "TaskStoreError";
+  }
+}
+
+const memory = new Map<string, Map<string, StoredTask>>();
+/** `${profile}/${task_id}` of submissions on their way to the server. */
+const inFlight = new Set<string>();
+
+function cacheFor(profile: string): Map<string, StoredTask> {
+  let cache = memory.get(profile);
+  if (!cache) {
+    cache = new Map();
+    memory.set(profile, cache);
+  }
+  return cache;
+}
+
+function tasksDir(profile: string): string {
+  return join(profileDir(profile), "tasks");
+}
+
+function entryFile(profile: string, taskId: string): string {
+  return join(tasksDir(profile), `${encodeURIComponent(taskId)}.json`);
+}
+
+function writeEntry(profile: string, entry: StoredTask): void {
+  const dir = tasksDir(profile);
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const file = entryFile(profile, entry.task.task_id);
+  writeFileSync(`${file}.tmp`, JSON.stringify(entry, null, 2), { mode: 0o600 });
+  renameSync(`${file}.tmp`, file);
+  cacheFor(profile).set(entry.task.task_id, entry);
+}
+
+function isoOr(value: unknown, fallback: number): string {
+  return typeof value === "string" && !Number.isNaN(Date.parse(value))
+    ? new Date(value).toISOString()
+    : new Date(fallback).toISOString();
+}
+
+function prune(profile: string, now: number): void {
+  const dir = tasksDir(profile);
+  if (!existsSync(dir)) return;
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const entry = JSON.parse(readFileSync(join(dir, file), "utf-8")) as StoredTask;
+      if (Date.parse(entry.expires_at) + PRUNE_AFTER_MS > now) continue;
+      cacheFor(profile).delete(entry.task.task_id);
+    } catch {
+      // unreadable; drop it along with the expired ones
+    }
+    unlinkSync(join(dir, file));
+  }
+}
+
+/** Stores a freshly fetched task, taking lease and expiry from the task when present. */
+export function storeTask(profile: string, task: TaskData): StoredTask {
+  const now = Date.now();
+  prune(profile, now);
+  const entry: StoredTask = {
+    task,
+    fetched_at: new Date(now).toISOString(),
+    lease_expires_at: isoOr(task.lease_expires_at, now + DEFAULT_LEASE_MS),
+    expires_at: isoOr(task.expires_at, now + DEFAULT_TTL_MS),
+  };
+  writeEntry(profile, entry);
+  return entry;
+}
+
+export function getTask(profile: string, taskId: string): StoredTask | null {
+  const cached = cacheFor(profile).get(taskId);
+  if (cached) return cached;
+  const file = entryFile(profile, taskId);
+  if (!existsSync(file)) return null;
+  try {
+    const entry = JSON.parse(readFileSync(file, "utf-8")) as StoredTask;
+    cacheFor(profile).set(taskId, entry);
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+/** Forgets a task handed back to the queue, so it cannot be submitted later. */
+export function forgetTask(profile: string, taskId: string): void {
+  cacheFor(profile).delete(taskId);
+  const file = entryFile(profile, taskId);
+  if (existsSync(file)) unlinkSync(file);
+}
+
+/** The stored task, if it may still be worked on and submitted; throws otherwise. */
+export function openTask(profile: string, taskId: string): StoredTask {
+  const entry = getTask(profile, taskId);
+  if (!entry) {
+    throw new TaskStoreError(
+      "unknown_task",
+      `Unknown task ${taskId}: it was not fetched with swarm_get_work by this profile`,
+    );
+  }
+  if (entry.submitted_at) {
+    throw new TaskStoreError(
+      "already_submitted",
+      `Task ${taskId} was already submitted at ${entry.submitted_at}`,
+    );
+  }
+  if (Date.parse(entry.expires_at) <= Date.now()) {
+    throw new TaskStoreError(
+      "expired",
+      `Task ${taskId} expired at ${entry.expires_at}; fetch new work`,
+    );
+  }
+  return entry;
+}
+
+/** Keeps a computed result with its task for swarm_submit. */
+export function storeResult(
+  profile: string,
+  taskId: string,
+  result: { output_hash: string; output_value?: string },
+): void {
+  const entry = getTask(profile, taskId);
+  if (!entry) return;
+  const stored: StoredResult = {
+    output_hash: result.output_hash,
+    ...(result.output_value !== undefined ? { output_value: result.output_value } : {}),
+    computed_at: new Date().toISOString(),
+  };
+  writeEntry(profile, { ...entry, result: stored });
+}
+
+/**
+ * Claims an open task with a stored result for submission; throws when it
+ * cannot be submitted or another submission of it is in flight. Pair with
+ * endSubmit once the submission has settled, either way.
+ */
+export function beginSubmit(profile: string, taskId: string): StoredTask & { result: StoredResult } {
+  const entry = openTask(profile, taskId);
+  if (!entry.result) {
+    throw new TaskStoreError(
+      "no_result",
+      `Task ${taskId} has no result yet; process it with swarm_process first`,
+    );
+  }
+  const key = `${profile}/${taskId}`;
+  if (inFlight.has(key)) {
+    throw new TaskStoreError("submit_in_flight", `Task ${taskId} is already being submitted`);
+  }
+  inFlight.add(key);
+  return { ...entry, result: entry.result };
+}
+
+export function endSubmit(profile: string, taskId: string): void {
+  inFlight.delete(`${profile}/${taskId}`);
+}
+
+export function markSubmitted(profile: string, taskId: string): void {
+  const entry = getTask(profile, taskId);
+  if (entry) writeEntry(profile, { ...entry, submitted_at: new Date().toISOString() });
+}
+
+/** True once the lease has run out; the server may hand the task to someone else. */
+export function leaseLapsed(entry: StoredTask, now = Date.now()): boolean {
+  return Date.parse(entry.lease_expires_at) <= now;
+}
+
+/** A warning for a task whose lease has run out, or null while it holds. */
+export function leaseWarning(profile: string, taskId: string): string | null {
+  const entry = getTask(profile, taskId);
+  if (!entry || !leaseLapsed(entry)) return null;
+  return `The lease on task ${taskId} lapsed at ${entry.lease_expires_at}; the swarm may have reassigned it and refuse this result`;
+}
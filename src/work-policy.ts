@@ -0,0 +1,112 @@
+import { release, SwarmApiError } from "./api.js";
+import { WORK_POLICY, type WorkPolicy } from "./config.js";
+import { getSecretKey, type Identity } from "./identity.js";
+import { appendLedger } from "./ledger.js";
+import { signEvent } from "./nostr.js";
+import { forgetTask } from "./task-store.js";
+import type { TaskData } from "./processors.js";
+import { taskTypeDoc } from "./task-docs.js";
+
+// ─── Task Selection ──────────────────────────────────────
+//
+// The policy travels to /work as query parameters, for servers that filter
+// the queue themselves. Every task is still checked locally, since a server
+// may ignore the parameters; a task that does not match is released (or
+// left to lapse) and another one fetched, up to maxRefetch times.
+
+export interface SkippedTask {
+  task_id: string;
+  task_type: string;
+  consensus_mode: string;
+  reason: string;
+  released: boolean;
+}
+
+export interface SelectedWork {
+  task: TaskData | null;
+  skipped: SkippedTask[];
+}
+
+/** Overlays per-call preferences on the configured policy. */
+export function resolvePolicy(overrides: Partial<WorkPolicy> = {}): WorkPolicy {
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, v]) => v !== undefined),
+  ) as Partial<WorkPolicy>;
+  return { ...WORK_POLICY, ...defined };
+}
+
+export function isSubjectiveTask(task: TaskData): boolean {
+  return taskTypeDoc(task.task_type)?.agent_input ?? task.consensus_mode === "review";
+}
+
+/** Why a task falls outside the policy, or null when it matches. */
+export function policyMismatch(task: TaskData, policy: WorkPolicy): string | null {
+  if (policy.taskTypes.length > 0 && !policy.taskTypes.includes(task.task_type)) {
+    return `task_type ${task.task_type} not in ${policy.taskTypes.join(", ")}`;
+  }
+  if (policy.consensusModes.length > 0 && !policy.consensusModes.includes(task.consensus_mode)) {
+    return `consensus_mode ${task.consensus_mode} not in ${policy.consensusModes.join(", ")}`;
+  }
+  if (policy.maxShardSize !== undefined && task.shard_size > policy.maxShardSize) {
+    return `shard_size ${task.shard_size} above ${policy.maxShardSize}`;
+  }
+  if (policy.skipSubjective && isSubjectiveTask(task)) {
+    return `${task.task_type} is subjective`;
+  }
+  return null;
+}
+
+function policyFilters(policy: WorkPolicy): Record<string, string> {
+  const filters: Record<string, string> = {};
+  if (policy.taskTypes.length > 0) filters.task_types = policy.taskTypes.join(",");
+  if (policy.consensusModes.length > 0) filters.consensus_modes = policy.consensusModes.join(",");
+  if (policy.maxShardSize !== undefined) filters.max_shard_size = String(policy.maxShardSize);
+  if (policy.skipSubjective) filters.skip_subjective = "true";
+  return filters;
+}
+
+async function releaseTask(identity: Identity, task: TaskData, reason: string): Promise<boolean> {
+  const sk = getSecretKey(identity);
+  const event = signEvent(sk, [
+    ["task_id", task.task_id],
+    ["reason", reason],
+  ]);
+  try {
+    await release(event, sk);
+    return true;
+  } catch (err) {
+    // servers without /release just let the lease lapse
+    if (err instanceof SwarmApiError) return false;
+    throw err;
+  }
+}
+
+/** Fetches tasks until one matches the policy or the refetch budget runs out. */
+export async function fetchMatching(
+  identity: Identity,
+  policy: WorkPolicy,
+  fetch: (filters: Record<string, string>) => Promise<TaskData | null>,
+): Promise<SelectedWork> {
+  const filters = policyFilters(policy);
+  const skipped: SkippedTask[] = [];
+  for (let attempt = 0; attempt <= policy.maxRefetch; attempt++) {
+    const task = await fetch(filters);
+    // a server that neither filters nor takes tasks back may hand out the same one again
+    if (!task || skipped.some((s) => s.task_id === task.task_id)) return { task: null, skipped };
+    const reason = policyMismatch(task, policy);
+    if (!reason) return { task, skipped };
+
+    const released =
+      policy.onMismatch === "release" ? await releaseTask(identity, task, reason) : false;
+    appendLedger(identity.profile, { kind: "skip", task_id: task.task_id, reason, released });
+    forgetTask(identity.profile, task.task_id);
+    skipped.push({
+      task_id: task.task_id,
+      task_type: task.task_type,
+      consensus_mode: task.consensus_mode,
+      reason,
+      released,
+    });
+  }
+  return { task: null, skipped };
+}
@@ -0,0 +1,302 @@
+import { getSecretKey, type Identity } from "./identity.js";
+import { signEvent } from "./nostr.js";
+import { getWork, submit, SwarmApiError, type SubmitResponse } from "./api.js";
+import type { TaskData } from "./processors.js";
+import { computePool, ComputeAbortedError } from "./compute-pool.js";
+import { isSupported, UnsupportedTaskError } from "./registry.js";
+import { appendLedger } from "./ledger.js";
+import { relayHub } from "./relay.js";
+import { enqueueSubmission, flushOutbox, listOutbox, recordSubmission } from "./outbox.js";
+import type { WorkPolicy } from "./config.js";
+import { fetchMatching, resolvePolicy, type SelectedWork, type SkippedTask } from "./work-policy.js";
+import {
+  commitResult,
+  commitUnsupported,
+  dueReveals,
+  revealPending,
+  usesCommitReveal,
+} from "./commit-reveal.js";
+import { beginSubmit, endSubmit, markSubmitted, storeResult, storeTask } from "./task-store.js";
+
+// ─── Work & Submission ───────────────────────────────────
+
+export async function fetchWork(
+  identity: Identity,
+  policy: WorkPolicy = resolvePolicy(),
+): Promise<SelectedWork> {
+  // deliver anything left over from an earlier outage before taking new work
+  if (listOutbox(identity.profile).length > 0) {
+    await flushOutbox(identity.profile).catch(() => undefined);
+  }
+  if (dueReveals(identity.profile).length > 0) {
+    await revealPending(identity).catch(() => undefined);
+  }
+  return fetchMatching(identity, policy, async (filters) => {
+    const task = await getWork(identity.agentId!, filters, getSecretKey(identity));
+    if (task) {
+      appendLedger(identity.profile, { kind: "task", task });
+      storeTask(identity.profile, task);
+    }
+    return task;
+  });
+}
+
+/** Submits the result stored for a task, as one submission at a time. */
+export async function submitResult(
+  identity: Identity,
+  taskId: string,
+  commitReveal = usesCommitReveal(identity.profile, taskId),
+): Promise<SubmitResponse> {
+  // refuses unknown, unprocessed, expired and already submitted tasks, and
+  // tasks another call is submitting right now
+  const { result } = beginSubmit(identity.profile, taskId);
+  try {
+    return await sendResult(identity, taskId, result.output_hash, result.output_value, commitReveal);
+  } finally {
+    endSubmit(identity.profile, taskId);
+  }
+}
+
+async function sendResult(
+  identity: Identity,
+  taskId: string,
+  outputHash: string,
+  outputValue: string | undefined,
+  commitReveal: boolean,
+): Promise<SubmitResponse> {
+  if (commitReveal) {
+    try {
+      const data = await commitResult(identity, taskId, outputHash, outputValue);
+      markSubmitted(identity.profile, taskId);
+      return data;
+    } catch (err) {
+      // a swarm without commit–reveal takes the answer as a plain submission
+      if (!(err instanceof SwarmApiError) || !commitUnsupported(err)) throw err;
+    }
+  }
+
+  const sk = getSecretKey(identity);
+  const tags: string[][] = [
+    ["task_id", taskId],
+    ["output_hash", outputHash],
+  ];
+  if (outputValue !== undefined) {
+    tags.push(["output_value", outputValue]);
+  }
+
+  const event = signEvent(sk, tags);
+  try {
+    const response = await submit(event, sk);
+    recordSubmission(identity.profile, taskId, event, response);
+    markSubmitted(identity.profile, taskId);
+    // relays only hear of a submission the swarm accepted
+    const relays = await relayHub.publish(event);
+    return relays.length > 0 ? { ...response, relays } : response;
+  } catch (err) {
+    if (!(err instanceof SwarmApiError)) throw err;
+    if (err.transient) {
+      // keep the signed event so it can be delivered unchanged later
+      enqueueSubmission(identity.profile, taskId, event, err);
+      markSubmitted(identity.profile, taskId);
+      return {
+        status: "queued",
+        task_id: taskId,
+        event_id: event.id,
+        reason: `${err.message}; queued for delivery (swarm_flush to retry now)`,
+      };
+    }
+    recordSubmission(identity.profile, taskId, event, err);
+    throw err;
+  }
+}
+
+// ─── Batch Worker ────────────────────────────────────────
+//
+// Fetches, computes and submits deterministic tasks without a model in the
+// loop. Subjective (review-mode) tasks need judgment, so the loop stops and
+// hands the fetched task back to the caller instead of guessing.
+
+export type StopReason =
+  | "max_tasks"
+  | "time_budget"
+  | "review_task"
+  | "unsupported_task"
+  | "no_work"
+  | "cancelled"
+  | "error";
+
+export interface BatchOptions {
+  maxTasks: number;
+  timeBudgetMs: number;
+  /** Number of tasks fetched and computed in parallel (default 1). */
+  concurrency?: number;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+  /** Task-selection policy (defaults to the configured one). */
+  policy?: WorkPolicy;
+}
+
+export interface BatchResult {
+  task_id: string;
+  task_type: string;
+  consensus_mode: string;
+  phase: string;
+  status: string;
+  reason?: string;
+  explanation?: string;
+}
+
+export interface BatchSummary {
+  stopped: StopReason;
+  processed: number;
+  accepted: number;
+  rejected: number;
+  /** Submissions that could not be delivered and wait in the outbox. */
+  queued: number;
+  /** Commitments whose answers are revealed once the window opens. */
+  committed: number;
+  elapsed_ms: number;
+  deltas: {
+    credits: number;
+    reputation: number;
+    elo: Record<string, number>;
+  };
+  balances?: {
+    credits?: number;
+    reputation?: number;
+    elo?: Record<string, number>;
+  };
+  results: BatchResult[];
+  pending_tasks: TaskData[];
+  /** Fetched tasks passed over because they did not match the policy. */
+  skipped: SkippedTask[];
+  error?: string;
+  error_kind?: string;
+}
+
+function num(v: unknown): number {
+  return typeof v === "number" && Number.isFinite(v) ? v : 0;
+}
+
+function applySubmitResponse(summary: BatchSummary, data: SubmitResponse): void {
+  summary.deltas.credits += num(data.credits_earned);
+  summary.deltas.reputation += num(data.reputation_delta);
+  if (data.elo_delta && typeof data.elo_delta === "object") {
+    for (const [track, delta] of Object.entries(data.elo_delta)) {
+      summary.deltas.elo[track] = (summary.deltas.elo[track] || 0) + num(delta);
+    }
+  }
+  const balances = summary.balances ?? {};
+  if (typeof data.credits === "number") balances.credits = data.credits;
+  if (typeof data.reputation === "number") balances.reputation = data.reputation;
+  if (data.elo && typeof data.elo === "object")
+    balances.elo = data.elo as Record<string, number>;
+  summary.balances = balances;
+}
+
+export async function runWorkBatch(
+  identity: Identity,
+  options: BatchOptions,
+): Promise<BatchSummary> {
+  const started = Date.now();
+  const summary: BatchSummary = {
+    stopped: "max_tasks",
+    processed: 0,
+    accepted: 0,
+    rejected: 0,
+    queued: 0,
+    committed: 0,
+    elapsed_ms: 0,
+    deltas: { credits: 0, reputation: 0, elo: {} },
+    results: [],
+    pending_tasks: [],
+    skipped: [],
+  };
+  const policy = options.policy ?? resolvePolicy();
+
+  let selftest;
+  try {
+    selftest = await computePool.selftestOnce();
+  } catch (err) {
+    summary.stopped = "error";
+    summary.error = `Processor self-test failed to run: ${(err as Error).message}`;
+    return summary;
+  }
+  if (!selftest.ok) {
+    summary.stopped = "error";
+    summary.error = `Processor self-test failed (${selftest.failed} of ${selftest.passed + selftest.failed} golden vectors); refusing to submit. Run swarm_selftest for details.`;
+    return summary;
+  }
+
+  let claimed = 0;
+  let halted = false;
+  const halt = (reason: StopReason, error?: string, errorKind?: string) => {
+    if (halted) return;
+    halted = true;
+    summary.stopped = reason;
+    if (error) summary.error = error;
+    if (errorKind) summary.error_kind = errorKind;
+  };
+
+  const lane = async () => {
+    while (!halted && claimed < options.maxTasks) {
+      if (options.signal?.aborted) return halt("cancelled");
+      if (Date.now() - started >= options.timeBudgetMs) return halt("time_budget");
+      claimed++;
+
+      const { task, skipped } = await fetchWork(identity, policy);
+      summary.skipped.push(...skipped);
+      if (!task) return halt("no_work");
+      if (task.consensus_mode === "review") {
+        // the server has leased this task to us, so hand it back even if
+        // another lane already stopped the batch
+        summary.pending_tasks.push(task);
+        return halt("review_task");
+      }
+      if (!isSupported(task)) {
+        summary.pending_tasks.push(task);
+        return halt("unsupported_task", new UnsupportedTaskError(task).message);
+      }
+
+      const result = await computePool.run(task, { signal: options.signal });
+      appendLedger(identity.profile, { kind: "result", task_id: task.task_id, ...result });
+      storeResult(identity.profile, task.task_id, result);
+      const data = await submitResult(identity, task.task_id);
+      summary.processed++;
+      options.onProgress?.(summary.processed, options.maxTasks);
+
+      if (data.status === "accepted") summary.accepted++;
+      else if (data.status === "queued") summary.queued++;
+      else if (data.status === "committed") summary.committed++;
+      else summary.rejected++;
+      applySubmitResponse(summary, data);
+      summary.results.push({
+        task_id: task.task_id,
+        task_type: task.task_type,
+        consensus_mode: task.consensus_mode,
+        phase: task.phase,
+        status: data.status,
+        ...(data.reason ? { reason: data.reason } : {}),
+        ...(result.explanation ? { explanation: result.explanation } : {}),
+      });
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(options.concurrency ?? 1, options.maxTasks));
+  await Promise.all(
+    Array.from({ length: lanes }, () =>
+      lane().catch((err: Error) => {
+        if (err instanceof ComputeAbortedError && err.reason === "cancelled") {
+          halt("cancelled", err.message);
+        } else if (err instanceof SwarmApiError) {
+          halt("error", err.message, err.kind);
+        } else {
+          halt("error", err.message);
+        }
+      }),
+    ),
+  );
+
+  summary.elapsed_ms = Date.now() - started;
+  return summary;
+}
@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import "./helpers.mjs";
+
+const { checkAnswer, normalizeAnswer, similarity } = await import("../dist/answers.js");
+const { sha256hex } = await import("../dist/processors.js");
+
+// Written answers are normalized before hashing and checked for problems
+// reviewers would mark down.
+
+const QUESTION = "Why does a radix two FFT need an input length that is a power of two";
+const task = {
+  task_id: "t1",
+  task_type: "open_question",
+  seed: "s",
+  shard_size: 0,
+  consensus_mode: "review",
+  phase: "produce",
+  description: QUESTION,
+};
+const codes = (issues) => issues.map((i) => i.code);
+
+test("normalizes an answer before hashing it", () => {
+  const raw = "  Each stage halves the input.  \r\n\r\n\r\n\r\nPad with zeros.\t\n";
+  const check = checkAnswer(task, raw, new Map());
+  assert.equal(check.output_value, "Each stage halves the input.\n\nPad with zeros.");
+  assert.equal(check.output_hash, sha256hex(check.output_value));
+  assert.equal(normalizeAnswer("caf\u0065\u0301"), "caf\u00E9");
+});
+
+test("warns from 80% of the answer's shingles taken from the question", () => {
+  // the question's 16 words make 14 trigrams; each added word adds one more
+  const at = checkAnswer(task, `${QUESTION} asked by everyone`, new Map());
+  assert.deepEqual(codes(at.warnings), ["repeats_question"]);
+  assert.match(at.warnings[0].message, /82%/);
+
+  const below = checkAnswer(task, `${QUESTION} asked by everyone today`, new Map());
+  assert.deepEqual(codes(below.warnings), []);
+
+  const answer = checkAnswer(
+    task,
+    "Each butterfly stage splits the input into even and odd halves, so it must halve cleanly.",
+    new Map(),
+  );
+  assert.deepEqual(codes(answer.warnings), []);
+});
+
+test("blocks short and unparseable answers", () => {
+  assert.deepEqual(codes(checkAnswer(task, "Pad it ok", new Map()).errors), ["too_short"]);
+  assert.deepEqual(codes(checkAnswer(task, '{"ratings":[4,2,5]}', new Map()).errors), [
+    "unparseable",
+  ]);
+  assert.deepEqual(codes(checkAnswer(task, "1024 2048 4096 8192 = 2^n", new Map()).errors), [
+    "unparseable",
+  ]);
+});
+
+test("warns about a near-duplicate of an earlier answer", () => {
+  const earlier = "Each butterfly stage splits the input into even and odd halves of equal size.";
+  const check = checkAnswer(
+    task,
+    `${earlier} Pad it.`,
+    new Map([
+      ["t0", earlier],
+      ["t1", earlier],
+    ]),
+  );
+  assert.deepEqual(codes(check.warnings), ["near_duplicate"]);
+  assert.match(check.warnings[0].message, /task t0/);
+  assert.equal(similarity(earlier, earlier), 1);
+});
@@ -0,0 +1,66 @@
+// Shared setup for the integration tests: a mock swarm on a free port and
+// the built MCP server spawned over stdio against it, with its own home.
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+
+const ENTRY = fileURLToPath(new URL("../dist/index.js", import.meta.url));
+
+export function tempHome() {
+  return mkdtempSync(join(tmpdir(), "gravity-swarm-test-"));
+}
+
+// The swarm home is read once, when config.js loads, so the test process
+// gets its own before anything from dist/ is imported.
+export const processHome = tempHome();
+process.env.GRAVITY_SWARM_HOME = processHome;
+process.on("exit", () => rmSync(processHome, { recursive: true, force: true }));
+
+const { startMockServer } = await import("../dist/mock/server.js");
+
+/** Starts a mock swarm and an MCP client session against it. */
+export async function startSession({ mock: mockOptions = {}, env = {} } = {}) {
+  const mock = await startMockServer({ port: 0, ...mockOptions });
+  const home = tempHome();
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [ENTRY],
+    env: {
+      ...process.env,
+      GRAVITY_SWARM_API: mock.url,
+      GRAVITY_SWARM_HOME: home,
+      GRAVITY_SWARM_WORKERS: "1",
+      ...env,
+    },
+    stderr: "ignore",
+  });
+  const client = new Client({ name: "gravity-swarm-test", version: "1.0.0" });
+  await client.connect(transport);
+
+  const call = (name, args = {}) => client.callTool({ name, arguments: args });
+  const text = (result) => result.content.map((c) => c.text).join("\n");
+  /** Calls a tool and parses its JSON result, failing on isError. */
+  const json = async (name, args = {}) => {
+    const result = await call(name, args);
+    if (result.isError) throw new Error(`${name} failed: ${text(result)}`);
+    return JSON.parse(text(result));
+  };
+
+  return {
+    mock,
+    home,
+    client,
+    call,
+    text,
+    json,
+    async close() {
+      await client.close();
+      await mock.close();
+      rmSync(home, { recursive: true, force: true });
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { request } from "node:http";
+import { setTimeout as sleep } from "node:timers/promises";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import "./helpers.mjs";
+
+const { startHttpServer } = await import("../dist/http.js");
+
+const INITIALIZE = JSON.stringify({
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "gravity-swarm-test", version: "1.0.0" },
+  },
+});
+
+/** POSTs an initialize request with the given headers; resolves to the status. */
+function initialize(url, headers) {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...headers,
+        },
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode);
+      },
+    );
+    req.on("error", reject);
+    req.end(INITIALIZE);
+  });
+}
+
+test("--http refuses foreign Host and Origin headers", async () => {
+  const http = await startHttpServer({ host: "127.0.0.1", port: 0 });
+  const { host } = new URL(http.url);
+  try {
+    assert.equal(await initialize(http.url, { Host: "attacker.example" }), 403);
+    assert.equal(await initialize(http.url, { Origin: "http://attacker.example" }), 403);
+    assert.equal(await initialize(http.url, { Origin: `http://${host}` }), 200);
+    assert.equal(await initialize(http.url, { Host: `localhost:${new URL(http.url).port}` }), 200);
+    assert.equal(http.sessions(), 2);
+  } finally {
+    await http.close();
+  }
+});
+
+test("--http closes sessions left idle", async () => {
+  const http = await startHttpServer({ host: "127.0.0.1", port: 0, idleTimeoutMs: 200 });
+  const client = new Client({ name: "gravity-swarm-test", version: "1.0.0" });
+  try {
+    await client.connect(new StreamableHTTPClientTransport(new URL(http.url)));
+    assert.equal(http.sessions(), 1);
+    await sleep(700);
+    assert.equal(http.sessions(), 0);
+  } finally {
+    await client.close();
+    await http.close();
+  }
+});
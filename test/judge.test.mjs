@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import "./helpers.mjs";
+
+const { judgeVote, judgementResult, NONE_CORRECT } = await import("../dist/judge.js");
+const { sha256hex } = await import("../dist/processors.js");
+
+// A judge endorses the response that matches its own classification and
+// never one whose hash does not match its value.
+
+const response = (index, value, hash = sha256hex(value)) => ({
+  index,
+  output_value: value,
+  output_hash: hash,
+});
+
+test("endorses the lowest matching response", () => {
+  const responses = [
+    response(0, "PERIODIC"),
+    response(1, "WHITE_NOISE"),
+    response(2, "WHITE_NOISE"),
+  ];
+  const judgement = judgeVote("WHITE_NOISE", responses);
+  assert.equal(judgement.choice, 1);
+  assert.equal(judgement.disagreement, true);
+  assert.deepEqual(
+    judgement.groups.map((g) => [g.output_value, g.indices]),
+    [
+      ["WHITE_NOISE", [1, 2]],
+      ["PERIODIC", [0]],
+    ],
+  );
+  assert.deepEqual(judgementResult(judgement, responses), {
+    output_hash: sha256hex("WHITE_NOISE"),
+    output_value: "1",
+    explanation: judgement.explanation,
+  });
+});
+
+test("flags a hash mismatch and never endorses it", () => {
+  const responses = [
+    response(0, "PERIODIC", sha256hex("periodic")),
+    response(1, "WHITE_NOISE"),
+    { index: 2, output_hash: sha256hex("") },
+    response(3, "LOUD_NOISE"),
+  ];
+  const judgement = judgeVote("PERIODIC", responses);
+  assert.equal(judgement.choice, null);
+  assert.deepEqual(judgement.flagged, [
+    { index: 0, issue: "hash_mismatch" },
+    { index: 2, issue: "missing_value" },
+    { index: 3, issue: "unknown_class" },
+  ]);
+  assert.match(judgement.explanation, /0 \(hash mismatch\)/);
+  const result = judgementResult(judgement, responses);
+  assert.equal(result.output_value, NONE_CORRECT);
+  assert.equal(result.output_hash, sha256hex(NONE_CORRECT));
+});
+
+test("accepts an upper-case hash of the right value", () => {
+  const responses = [response(0, "PERIODIC", sha256hex("PERIODIC").toUpperCase())];
+  const judgement = judgeVote("PERIODIC", responses);
+  assert.equal(judgement.choice, 0);
+  assert.equal(judgementResult(judgement, responses).output_hash, sha256hex("PERIODIC"));
+});
@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { TASK_TEMPLATES } from "../dist/mock/fixtures.js";
+import { startSession } from "./helpers.mjs";
+
+// The whole enlist → work → process → submit loop against the mock, once
+// for every task template it serves (each task type and phase).
+
+test("enlists, then processes and submits every task type", async () => {
+  const s = await startSession({ mock: { revealDelayMs: 0 } });
+  try {
+    const agent = await s.json("swarm_enlist", { name: "loop-test" });
+    assert.match(agent.agent_id, /^agent_/);
+
+    const seen = new Set();
+    for (let i = 0; i < TASK_TEMPLATES.length; i++) {
+      const task = await s.json("swarm_get_work");
+      seen.add(`${task.task_type}/${task.consensus_mode}/${task.phase}`);
+
+      let answer;
+      if (task.consensus_mode === "review") {
+        answer =
+          task.phase === "review"
+            ? JSON.stringify({ ratings: task.responses.map(() => 3) })
+            : `Answer number ${i}: pad the input with zeros up to the next power of two length.`;
+      }
+      const result = await s.json("swarm_process", { task_id: task.task_id, answer });
+      assert.equal(result.ready_to_submit, true, `${task.task_type}/${task.phase} not ready`);
+
+      const submitted = await s.json("swarm_submit", { task_id: task.task_id });
+      assert.ok(
+        ["accepted", "committed"].includes(submitted.status),
+        `${task.task_type}/${task.phase}: ${JSON.stringify(submitted)}`,
+      );
+    }
+    assert.equal(seen.size, TASK_TEMPLATES.length);
+
+    // review and vote answers were committed; reveal them now the window is open
+    const revealed = await s.json("swarm_reveal");
+    assert.equal(revealed.waiting, 0);
+    for (const r of revealed.results) assert.equal(r.status, "accepted", JSON.stringify(r));
+
+    const stats = await s.json("swarm_my_stats");
+    assert.equal(stats.tasks_fetched, TASK_TEMPLATES.length);
+    assert.equal(stats.submitted, TASK_TEMPLATES.length);
+    assert.equal(stats.accepted, TASK_TEMPLATES.length);
+    assert.equal(stats.rejected, 0);
+    assert.equal(stats.pending, 0);
+    assert.equal(stats.win_rate, 1);
+  } finally {
+    await s.close();
+  }
+});
@@ -0,0 +1,152 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { createServer } from "node:http";
+import { finalizeEvent, generateSecretKey, getPublicKey, verifyEvent } from "nostr-tools/pure";
+
+// NIP-98 Authorization headers: what the client signs for each request,
+// and what the mock swarm refuses.
+
+const sha256 = (text) => createHash("sha256").update(text).digest("hex");
+const decode = (header) => JSON.parse(Buffer.from(header.replace(/^Nostr /, ""), "base64"));
+const tag = (event, name) => event.tags.find((t) => t[0] === name)?.[1];
+
+// a stand-in API that records each request; the API URL is fixed when
+// config.js loads, so it must be listening before dist/ is imported
+const captured = [];
+const capture = createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    captured.push({ method: req.method, url: req.url, auth: req.headers.authorization, body });
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ status: "accepted" }));
+  });
+});
+await new Promise((resolve) => capture.listen(0, "127.0.0.1", resolve));
+const API = `http://127.0.0.1:${capture.address().port}/api`;
+process.env.GRAVITY_SWARM_API = API;
+await import("./helpers.mjs");
+const { getWork, submit } = await import("../dist/api.js");
+const { httpAuthHeader, signEvent } = await import("../dist/nostr.js");
+const { startMockServer } = await import("../dist/mock/server.js");
+
+test("client signs each request for its URL, method and body", async (t) => {
+  t.after(() => capture.close());
+  const sk = generateSecretKey();
+
+  await getWork("agent_x", { task_types: "fft" }, sk);
+  const get = captured.at(-1);
+  const getAuth = decode(get.auth);
+  assert.ok(verifyEvent(getAuth));
+  assert.equal(getAuth.kind, 27235);
+  assert.equal(getAuth.pubkey, getPublicKey(sk));
+  assert.equal(tag(getAuth, "u"), `${API}/work/agent_x?task_types=fft`);
+  assert.equal(tag(getAuth, "method"), "GET");
+  assert.equal(tag(getAuth, "payload"), undefined);
+  assert.ok(Math.abs(getAuth.created_at - Date.now() / 1000) < 5);
+
+  await submit(signEvent(sk, [["task_id", "t1"]]), sk);
+  const post = captured.at(-1);
+  const postAuth = decode(post.auth);
+  assert.equal(tag(postAuth, "u"), `${API}/submit`);
+  assert.equal(tag(postAuth, "method"), "POST");
+  assert.equal(tag(postAuth, "payload"), sha256(post.body));
+
+  await submit(signEvent(sk, [["task_id", "t2"]]));
+  assert.equal(captured.at(-1).auth, undefined);
+});
+
+test("mock refuses mismatched, stale and foreign Authorization headers", async () => {
+  const mock = await startMockServer({ port: 0 });
+  const sk = generateSecretKey();
+  const other = generateSecretKey();
+  const send = async (method, path, { body, auth } = {}) => {
+    const res = await fetch(`${mock.url}${path}`, {
+      method,
+      body,
+      headers: { "Content-Type": "application/json", ...(auth ? { Authorization: auth } : {}) },
+    });
+    return { status: res.status, error: (await res.json()).error };
+  };
+  const signed = (key, method, path, body) =>
+    httpAuthHeader(key, `${mock.url}${path}`, method, body);
+
+  try {
+    const enlist = JSON.stringify(
+      signEvent(sk, [
+        ["d", "gravity-swarm-enlist"],
+        ["name", "nip98-test"],
+      ]),
+    );
+    const enlisted = await send("POST", "/enlist", {
+      body: enlist,
+      auth: signed(sk, "POST", "/enlist", enlist),
+    });
+    assert.equal(enlisted.status, 200, enlisted.error);
+    const work = `/work/agent_${getPublicKey(sk).substring(0, 12)}`;
+    assert.equal((await send("GET", work, { auth: signed(sk, "GET", work) })).status, 200);
+
+    const wrongUrl = await send("GET", work, {
+      auth: signed(sk, "GET", `${work}?task_types=fft`),
+    });
+    assert.deepEqual(wrongUrl, {
+      status: 401,
+      error: "Authorization u tag does not match the request URL",
+    });
+
+    const wrongMethod = await send("GET", work, { auth: signed(sk, "POST", work) });
+    assert.deepEqual(wrongMethod, {
+      status: 401,
+      error: "Authorization method tag does not match the request method",
+    });
+
+    const submission = JSON.stringify(
+      signEvent(sk, [
+        ["task_id", "t1"],
+        ["output_hash", "00"],
+      ]),
+    );
+    const wrongBody = await send("POST", "/submit", {
+      body: submission,
+      auth: signed(sk, "POST", "/submit", `${submission} `),
+    });
+    assert.deepEqual(wrongBody, {
+      status: 401,
+      error: "Authorization payload tag does not match the body hash",
+    });
+
+    const stale = finalizeEvent(
+      {
+        kind: 27235,
+        created_at: Math.floor(Date.now() / 1000) - 120,
+        tags: [
+          ["u", `${mock.url}${work}`],
+          ["method", "GET"],
+        ],
+        content: "",
+      },
+      sk,
+    );
+    const staleAuth = `Nostr ${Buffer.from(JSON.stringify(stale)).toString("base64")}`;
+    assert.deepEqual(await send("GET", work, { auth: staleAuth }), {
+      status: 401,
+      error: "Authorization event created_at outside accepted window",
+    });
+
+    assert.deepEqual(await send("GET", work, { auth: signed(other, "GET", work) }), {
+      status: 403,
+      error: "Authorization pubkey is not this agent's",
+    });
+    const foreign = await send("POST", "/submit", {
+      body: submission,
+      auth: signed(other, "POST", "/submit", submission),
+    });
+    assert.deepEqual(foreign, {
+      status: 401,
+      error: "Authorization pubkey does not match the event pubkey",
+    });
+  } finally {
+    await mock.close();
+  }
+});
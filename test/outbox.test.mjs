@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { hexToBytes } from "@noble/hashes/utils";
+import { finalizeEvent } from "nostr-tools/pure";
+import { startSession } from "./helpers.mjs";
+
+// Queued submissions are resent exactly as signed, so the server can
+// deduplicate them by event id. One the swarm refuses as stale is dropped
+// and reported, never re-signed.
+
+async function queueSubmission(s, ageSeconds) {
+  await s.json("swarm_enlist", { name: "outbox-test" });
+  const task = await s.json("swarm_get_work", { task_types: ["fft"] });
+  const result = await s.json("swarm_process", { task_id: task.task_id });
+
+  const { secretKeyHex } = JSON.parse(readFileSync(join(s.home, "identity.json"), "utf-8"));
+  const event = finalizeEvent(
+    {
+      kind: 30078,
+      created_at: Math.floor(Date.now() / 1000) - ageSeconds,
+      tags: [
+        ["task_id", task.task_id],
+        ["output_hash", result.output_hash],
+      ],
+      content: "",
+    },
+    hexToBytes(secretKeyHex),
+  );
+  const outbox = join(s.home, "outbox");
+  mkdirSync(outbox, { recursive: true });
+  writeFileSync(
+    join(outbox, `${event.id}.json`),
+    JSON.stringify({
+      task_id: task.task_id,
+      event,
+      queued_at: new Date().toISOString(),
+      attempts: 1,
+      last_error: "timeout",
+    }),
+  );
+  return event;
+}
+
+test("resends a queued submission unchanged", async () => {
+  const s = await startSession();
+  try {
+    const event = await queueSubmission(s, 60);
+    const summary = await s.json("swarm_flush");
+    assert.equal(summary.sent, 1, JSON.stringify(summary));
+    assert.equal(summary.results[0].event_id, event.id);
+    assert.ok(summary.results[0].status, JSON.stringify(summary));
+    assert.deepEqual((await s.json("swarm_flush", { list_only: true })).queued, []);
+  } finally {
+    await s.close();
+  }
+});
+
+test("drops and reports a queued submission refused as stale", async () => {
+  const s = await startSession();
+  try {
+    const event = await queueSubmission(s, 900);
+    const summary = await s.json("swarm_flush");
+    assert.equal(summary.sent, 0, JSON.stringify(summary));
+    assert.equal(summary.dropped, 1);
+    const [dropped] = summary.results;
+    assert.equal(dropped.event_id, event.id);
+    assert.equal(dropped.outcome, "dropped");
+    assert.match(dropped.error, /created_at/);
+    assert.deepEqual((await s.json("swarm_flush", { list_only: true })).queued, []);
+  } finally {
+    await s.close();
+  }
+});
@@ -0,0 +1,103 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { generateSecretKey, getPublicKey } from "nostr-tools/pure";
+import * as nip49 from "nostr-tools/nip49";
+import { startSession, tempHome } from "./helpers.mjs";
+
+test("profile list reads encrypted profiles without a passphrase and rewrites nothing", async () => {
+  const s = await startSession();
+  try {
+    await s.json("swarm_profile_create", { profile: "plain" });
+    const sk = generateSecretKey();
+    const encryptedFile = join(s.home, "profiles", "locked", "identity.json");
+    mkdirSync(join(s.home, "profiles", "locked"), { recursive: true });
+    writeFileSync(
+      encryptedFile,
+      JSON.stringify({
+        publicKeyHex: getPublicKey(sk),
+        agentId: "agent_locked",
+        name: "locked",
+        ncryptsec: nip49.encrypt(sk, "correct horse"),
+      }),
+    );
+    const plainFile = join(s.home, "profiles", "plain", "identity.json");
+    const before = [readFileSync(encryptedFile, "utf-8"), readFileSync(plainFile, "utf-8")];
+
+    const list = await s.json("swarm_profile_list");
+    const locked = list.profiles.find((p) => p.profile === "locked");
+    assert.equal(locked.agent_id, "agent_locked");
+    assert.equal(locked.encrypted_at_rest, true);
+    assert.ok(list.profiles.some((p) => p.profile === "plain"));
+    assert.deepEqual(
+      [readFileSync(encryptedFile, "utf-8"), readFileSync(plainFile, "utf-8")],
+      before,
+    );
+  } finally {
+    await s.close();
+  }
+});
+
+test("switching profiles over --http affects only the calling session", async () => {
+  const { startHttpServer } = await import("../dist/http.js");
+  const http = await startHttpServer({ host: "127.0.0.1", port: 0 });
+  const connect = async () => {
+    const client = new Client({ name: "gravity-swarm-test", version: "1.0.0" });
+    await client.connect(new StreamableHTTPClientTransport(new URL(http.url)));
+    return client;
+  };
+  const json = async (client, name, args = {}) => {
+    const result = await client.callTool({ name, arguments: args });
+    assert.ok(!result.isError, result.content[0].text);
+    return JSON.parse(result.content[0].text);
+  };
+  const a = await connect();
+  const b = await connect();
+  try {
+    await json(a, "swarm_profile_create", { profile: "alt" });
+    await json(a, "swarm_profile_switch", { profile: "alt" });
+    assert.equal((await json(a, "swarm_profile_list")).active, "alt");
+    assert.equal((await json(b, "swarm_profile_list")).active, "default");
+  } finally {
+    await a.close();
+    await b.close();
+    await http.close();
+  }
+});
+
+test("a locked profile with a due reveal does not stop the server at startup", async () => {
+  const home = tempHome();
+  const sk = generateSecretKey();
+  mkdirSync(join(home, "profiles", "locked", "reveals"), { recursive: true });
+  writeFileSync(
+    join(home, "profiles", "locked", "identity.json"),
+    JSON.stringify({
+      publicKeyHex: getPublicKey(sk),
+      agentId: "agent_locked",
+      name: "locked",
+      ncryptsec: nip49.encrypt(sk, "correct horse"),
+    }),
+  );
+  writeFileSync(
+    join(home, "profiles", "locked", "reveals", "task_1.json"),
+    JSON.stringify({
+      task_id: "task_1",
+      committed_at: new Date().toISOString(),
+      acknowledged: false,
+      attempts: 0,
+    }),
+  );
+  const s = await startSession({ env: { GRAVITY_SWARM_HOME: home } });
+  try {
+    await sleep(500);
+    const list = await s.json("swarm_profile_list");
+    assert.ok(list.profiles.some((p) => p.profile === "locked"), JSON.stringify(list));
+  } finally {
+    await s.close();
+    rmSync(home, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,82 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { createServer as createNetServer } from "node:net";
+import { join } from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+// A reveal carries the plaintext answer and salt, so it must reach relays
+// only after the swarm accepts it. The server runs in this process, with
+// the relay hub's WebSocket pointed at an in-memory relay.
+
+const { MemoryRelay } = await import("../dist/mock/relay.js");
+const relay = new MemoryRelay();
+globalThis.WebSocket = MemoryRelay.network({ "memory://relay": relay });
+
+/** A free port; the API URL is fixed when config.js loads, before the mock starts. */
+async function freePort() {
+  const probe = createNetServer().listen(0, "127.0.0.1");
+  await new Promise((resolve) => probe.once("listening", resolve));
+  const { port } = probe.address();
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+const port = await freePort();
+process.env.GRAVITY_SWARM_API = `http://127.0.0.1:${port}/api`;
+process.env.GRAVITY_SWARM_RELAYS = "memory://relay";
+const { processHome } = await import("./helpers.mjs");
+const { startMockServer } = await import("../dist/mock/server.js");
+const { createServer } = await import("../dist/server.js");
+const { relayHub } = await import("../dist/relay.js");
+
+const REVEAL_DELAY_MS = 1_500;
+
+test("a reveal the swarm answers with 425 never reaches a relay", async () => {
+  const mock = await startMockServer({ port, revealDelayMs: REVEAL_DELAY_MS });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  const client = new Client({ name: "gravity-swarm-test", version: "1.0.0" });
+  await client.connect(clientTransport);
+  const json = async (name, args = {}) => {
+    const result = await client.callTool({ name, arguments: args });
+    assert.ok(!result.isError, result.content[0].text);
+    return JSON.parse(result.content[0].text);
+  };
+  const revealsOnRelay = () => relay.events.filter((e) => e.tags.some((t) => t[0] === "salt"));
+
+  try {
+    await json("swarm_enlist", { name: "reveal-test" });
+    const task = await json("swarm_get_work", { consensus_modes: ["vote"] });
+    await json("swarm_process", { task_id: task.task_id });
+    const committed = await json("swarm_submit", { task_id: task.task_id });
+    assert.equal(committed.status, "committed");
+
+    // pretend our clock runs ahead, so the client sends the reveal early
+    const dir = join(processHome, "reveals");
+    const [file] = readdirSync(dir).filter((f) => f.endsWith(".json"));
+    const entry = JSON.parse(readFileSync(join(dir, file), "utf-8"));
+    writeFileSync(
+      join(dir, file),
+      JSON.stringify({ ...entry, reveal_after: new Date(0).toISOString() }),
+    );
+
+    const early = await json("swarm_reveal");
+    assert.equal(early.waiting, 1, JSON.stringify(early));
+    assert.equal(early.results[0].error_kind, "reveal_not_open");
+    await sleep(100);
+    assert.deepEqual(revealsOnRelay(), []);
+
+    await sleep(REVEAL_DELAY_MS);
+    const open = await json("swarm_reveal");
+    assert.equal(open.revealed, 1, JSON.stringify(open));
+    await sleep(100);
+    assert.equal(revealsOnRelay().length, 1);
+  } finally {
+    await client.close();
+    relayHub.close();
+    await mock.close();
+  }
+});
@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import "./helpers.mjs";
+
+const { buildReview, canonicalReview, InvalidReviewError, parseRatingsAnswer } = await import(
+  "../dist/review.js"
+);
+const { loadOrCreateIdentity } = await import("../dist/identity.js");
+const { appendLedger } = await import("../dist/ledger.js");
+const { sha256hex } = await import("../dist/processors.js");
+
+// A review is submitted as canonical JSON, so the same ratings always hash
+// the same, and only for a review-phase task it did not answer itself.
+
+const reviewTask = (values, extra = {}) => ({
+  task_id: "review-1",
+  task_type: "open_question",
+  seed: "s",
+  shard_size: 0,
+  consensus_mode: "review",
+  phase: "review",
+  responses: values.map((v, index) => ({ index, output_value: v, output_hash: sha256hex(v) })),
+  ...extra,
+});
+
+test("canonical review JSON has a fixed shape", () => {
+  assert.equal(
+    canonicalReview([{ rating: 4 }, { rating: 2, rationale: "  " }]),
+    '{"ratings":[4,2]}',
+  );
+  assert.equal(
+    canonicalReview([{ rating: 4, rationale: " clear " }, { rating: 2 }]),
+    '{"ratings":[4,2],"rationales":["clear",""]}',
+  );
+  const parsed = parseRatingsAnswer('{ "rationales": ["clear"], "ratings": [4, 2] }');
+  assert.equal(canonicalReview(parsed), '{"ratings":[4,2],"rationales":["clear",""]}');
+});
+
+test("builds the review and its hash from the canonical form", () => {
+  const review = buildReview(reviewTask(["first answer", "second answer"]), [
+    { rating: 5 },
+    { rating: 1 },
+  ]);
+  assert.deepEqual(review, {
+    output_value: '{"ratings":[5,1]}',
+    output_hash: sha256hex('{"ratings":[5,1]}'),
+  });
+});
+
+test("refuses reviews that do not fit the task", () => {
+  const task = reviewTask(["first answer", "second answer"]);
+  assert.throws(() => buildReview(task, [{ rating: 5 }]), /Expected 2 ratings/);
+  assert.throws(
+    () => buildReview(reviewTask(["a"], { n_responses: 3 }), [{ rating: 5 }]),
+    /Expected 3 ratings/,
+  );
+  assert.throws(() => buildReview(task, [{ rating: 5 }, { rating: 6 }]), /response 1/);
+  assert.throws(() => buildReview(task, [{ rating: 5 }, { rating: 2.5 }]), InvalidReviewError);
+  assert.throws(
+    () => buildReview({ ...task, phase: "produce" }, [{ rating: 5 }, { rating: 2 }]),
+    /not a review-phase task/,
+  );
+  assert.throws(() => parseRatingsAnswer("[4,2]"), /Ratings must be JSON/);
+});
+
+test("refuses to review an answer from a sibling profile", () => {
+  const answer = "An answer this machine wrote earlier.";
+  loadOrCreateIdentity("sibling");
+  appendLedger("sibling", {
+    kind: "task",
+    task: { ...reviewTask([]), task_id: "produce-1", phase: "produce" },
+  });
+  appendLedger("sibling", { kind: "result", task_id: "produce-1", output_hash: sha256hex(answer) });
+
+  assert.throws(
+    () => buildReview(reviewTask(["someone else's", answer]), [{ rating: 3 }, { rating: 5 }]),
+    /Response 1 is your own answer \(profile "sibling"\)/,
+  );
+});
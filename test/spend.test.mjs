@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { startSession } from "./helpers.mjs";
+
+// The spend policy file covers the whole swarm home, so its caps count
+// what every profile spends.
+
+test("spend caps are shared by every profile", async () => {
+  const s = await startSession();
+  try {
+    writeFileSync(join(s.home, "spend-policy.json"), JSON.stringify({ dailyCredits: 5 }));
+    await s.json("swarm_enlist", { name: "spender-a" });
+    await s.json("swarm_profile_create", { profile: "b" });
+    await s.json("swarm_enlist", { name: "spender-b", profile: "b" });
+
+    const sent = await s.json("swarm_propose", { task_type: "fft" });
+    assert.ok(sent.proposal_id, JSON.stringify(sent));
+
+    const policy = await s.json("swarm_policy", { profile: "b" });
+    assert.equal(policy.spent_24h, 5);
+    assert.equal(policy.remaining_24h, 0);
+
+    const refused = await s.call("swarm_propose", { task_type: "fft", profile: "b" });
+    assert.equal(refused.isError, true);
+    assert.match(s.text(refused), /daily cap/);
+  } finally {
+    await s.close();
+  }
+});
+
+test("a proposal with an unknown outcome counts against the caps", async () => {
+  const s = await startSession();
+  // the same home, against a swarm that cannot be reached
+  const offline = await startSession({
+    env: {
+      GRAVITY_SWARM_HOME: s.home,
+      GRAVITY_SWARM_API: "http://127.0.0.1:9/api",
+      GRAVITY_SWARM_RETRIES: "0",
+    },
+  });
+  try {
+    writeFileSync(join(s.home, "spend-policy.json"), JSON.stringify({ dailyCredits: 5 }));
+    await s.json("swarm_enlist", { name: "spender" });
+
+    const lost = await offline.call("swarm_propose", { task_type: "fft" });
+    assert.equal(lost.isError, true);
+    assert.match(offline.text(lost), /network/);
+
+    const policy = await s.json("swarm_policy");
+    assert.equal(policy.spent_24h, 5);
+    const refused = await s.call("swarm_propose", { task_type: "fft" });
+    assert.equal(refused.isError, true);
+    assert.match(s.text(refused), /daily cap/);
+  } finally {
+    await offline.close();
+    await s.close();
+  }
+});
@@ -0,0 +1,66 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { startSession } from "./helpers.mjs";
+
+// swarm_submit sends the result swarm_process stored for the task, once.
+
+test("submits the stored result, and only once when called concurrently", async () => {
+  const s = await startSession();
+  try {
+    await s.json("swarm_enlist", { name: "submit-test" });
+    const task = await s.json("swarm_get_work", { task_types: ["sha_chain"] });
+
+    const early = await s.call("swarm_submit", { task_id: task.task_id });
+    assert.equal(early.isError, true);
+    assert.match(s.text(early), /no result yet/);
+
+    const result = await s.json("swarm_process", { task_id: task.task_id });
+    const mismatch = await s.call("swarm_submit", {
+      task_id: task.task_id,
+      output_hash: "0".repeat(64),
+    });
+    assert.equal(mismatch.isError, true);
+    assert.match(s.text(mismatch), new RegExp(result.output_hash));
+
+    const outcomes = await Promise.all([
+      s.call("swarm_submit", { task_id: task.task_id }),
+      s.call("swarm_submit", { task_id: task.task_id }),
+    ]);
+    const accepted = outcomes.filter((r) => !r.isError);
+    assert.equal(accepted.length, 1, outcomes.map(s.text).join("\n"));
+    assert.equal(JSON.parse(s.text(accepted[0])).status, "accepted");
+    assert.match(s.text(outcomes.find((r) => r.isError)), /already being submitted/);
+  } finally {
+    await s.close();
+  }
+});
+
+test("warns when processing and submitting a task whose lease lapsed", async () => {
+  const s = await startSession({ mock: { leaseMs: 0 } });
+  try {
+    await s.json("swarm_enlist", { name: "lease-test" });
+    const task = await s.json("swarm_get_work", { task_types: ["sha_chain"] });
+    const result = await s.json("swarm_process", { task_id: task.task_id });
+    assert.match(result.lease_warning, /lease on task .* lapsed/);
+    const submitted = await s.json("swarm_submit", { task_id: task.task_id });
+    assert.match(submitted.lease_warning, /lease on task .* lapsed/);
+  } finally {
+    await s.close();
+  }
+});
+
+test("submits plainly when the swarm takes no commitments", async () => {
+  const s = await startSession({ mock: { commitReveal: false } });
+  try {
+    await s.json("swarm_enlist", { name: "submit-test" });
+    const task = await s.json("swarm_get_work", { consensus_modes: ["vote"] });
+    await s.json("swarm_process", { task_id: task.task_id });
+
+    const submitted = await s.json("swarm_submit", { task_id: task.task_id });
+    assert.equal(submitted.status, "accepted", JSON.stringify(submitted));
+    const pending = await s.json("swarm_reveal");
+    assert.deepEqual(pending.results, []);
+  } finally {
+    await s.close();
+  }
+});